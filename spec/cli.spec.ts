@@ -0,0 +1,115 @@
+import {expect} from 'chai';
+import {spawn, spawnSync} from 'child_process';
+import {mkdtemp, readFile, rm, writeFile} from 'fs/promises';
+import {tmpdir} from 'os';
+import {join} from 'path';
+
+/**
+ * Runs the command line tool on source text, written to a directory of its own, so that the session it saves is
+ * thrown away with it. Returns the source text as the run left it, too.
+ */
+async function runCli(source: string, ...args: string[]) {
+  const directory = await mkdtemp(join(tmpdir(), 'rete-cli-'));
+  try {
+    const file = join(directory, 'kb.rete');
+    await writeFile(file, source);
+    const result = spawnSync(process.execPath, ['--import', 'tsx', 'src/cli.ts', '--clean', ...args, file], {encoding: 'utf8', timeout: 60000});
+    return {...result, source: await readFile(file, 'utf8')};
+  } finally {
+    await rm(directory, {recursive: true, force: true});
+  }
+}
+
+/**
+ * Runs the command line tool interactively on a file, answering each prompt with the next command, the last of which
+ * should end the session. Returns what each command printed, without the escape sequences that draw the prompts.
+ */
+async function runInteractively(file: string, commands: string[]): Promise<string[]> {
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/cli.ts', '--clean', '-i', file]);
+  try {
+    let stdout = '';
+    let sent = 0;
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString('utf8');
+      // a prompt is answered once marked done, and the next drawn once the command is done
+      const answered = stdout.split('\u2714').length - 1;
+      if (sent === answered && sent < commands.length && stdout.slice(stdout.lastIndexOf('\u2714') + 1).includes('? >')) {
+        child.stdin.write(`${commands[sent++]}\n`);
+      }
+    });
+    await new Promise(resolve => child.once('exit', resolve));
+    return stdout.replace(/\x1b\[[\d;?]*[A-Za-z]/g, '').split('\u2714 > ').slice(1)
+      .map(answer => answer.substring(answer.indexOf('\n') + 1).split('? >')[0]);
+  } finally {
+    child.exitCode === null && child.kill();
+  }
+}
+
+describe('command line', function () {
+  this.timeout(120000);
+
+  it('exits with status 0 when the run converges', async () => {
+    const {status, stdout} = await runCli(await readFile('test2.rete', 'utf8'), '-s', 'stratifiedManual');
+    expect(status).to.equal(0);
+    expect(stdout).to.contain('species:robbin');
+  });
+
+  it('exits with a non-zero status when the run oscillates', async () => {
+    const {status, stderr} = await runCli(await readFile('test2-fail.rete', 'utf8'));
+    expect(status).to.equal(1);
+    expect(stderr).to.contain('Oscillation detected');
+  });
+
+  it('keeps the strict schema check of -x over the #schemacheck directives of the file', async () => {
+    const {status, stderr} = await runCli(await readFile('schema-fail.rete', 'utf8'), '-x');
+    expect(status).to.equal(1);
+    expect(stderr).to.contain('The strict schema check refused');
+  });
+
+  it('checks a file without running it, exiting with a non-zero status on errors', async () => {
+    expect((await runCli(await readFile('test2.rete', 'utf8'), '--check')).status).to.equal(0);
+    const {status, stdout} = await runCli('(! (duck is-a bird))\n((<x> is-a bird) -> "Unbound" (! (<x> eats <food>)))\n', '--check');
+    expect(status).to.equal(1);
+    expect(stdout).to.contain(':2: error: Variable <food> in the RHS of production "Unbound" is not bound in its LHS [unbound-variable]');
+  });
+
+  it('proposes #schema directives, and appends those missing from the file before its first clause', async () => {
+    const {status, stdout, source} = await runCli('#schema _ is-a _\n(! (duck is-a bird))\n', '-n', 'append');
+    expect(status).to.equal(0);
+    expect(stdout).to.contain('+ #schema _ is-a bird "TODO: what _ is-a _ means"\n- #schema _ is-a _\n');
+    expect(stdout).to.contain('Added 1 directive to ');
+    expect(source).to.equal('#schema _ is-a _\n#schema _ is-a bird "TODO: what _ is-a _ means"\n(! (duck is-a bird))\n');
+  });
+
+  it('saves and loads snapshots, and undoes retracts and loads one after the other', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'rete-cli-'));
+    try {
+      const file = join(directory, 'kb.rete');
+      await writeFile(file, '(! (duck is-a bird) (robbin is-a bird))\n((<x> is-a bird) -> "Flying birds" (! (<x> fly can)))\n');
+      const [saved, retracted, snapshots, undone, retractedAgain, loadedSnapshot, loadUndone, retractUndone, nothingLeft] =
+        await runInteractively(file, [
+          'save before',
+          'retract duck is-a bird',
+          'snapshots',
+          'undo',
+          'retract robbin is-a bird',
+          'load before',
+          'undo',
+          'undo',
+          'undo',
+          'quit',
+        ]);
+      expect(saved).to.equal('Snapshot before saved\n');
+      expect(retracted).to.contain('consists of 2 WMEs').and.not.contain('(duck');
+      expect(snapshots).to.match(/^before\t/);
+      expect(undone).to.contain('consists of 4 WMEs').and.contain('(duck fly can)');
+      expect(retractedAgain).to.contain('consists of 2 WMEs').and.not.contain('(robbin');
+      expect(loadedSnapshot).to.contain('Snapshot before loaded').and.contain('consists of 4 WMEs');
+      expect(loadUndone).to.contain('consists of 2 WMEs').and.not.contain('(robbin');
+      expect(retractUndone).to.contain('consists of 4 WMEs').and.contain('(robbin fly can)');
+      expect(nothingLeft).to.equal('Nothing to undo\n');
+    } finally {
+      await rm(directory, {recursive: true, force: true});
+    }
+  });
+});
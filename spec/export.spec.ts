@@ -0,0 +1,76 @@
+import {expect} from 'chai';
+import {readFile} from 'fs/promises';
+import {exportSource} from '../src/export';
+import {ReasonerOptions} from '../src/reasoner';
+import {facts, loaded} from './helpers';
+
+const zoo = `
+#schema _ is-a _
+#schema _ fly! :enum(can|cannot) "Whether _ can fly"
+#schema _ weight :number[0,]
+#schema _ flies _
+#prefix ex: <http://example.org/zoo/>
+#schemacheck on
+(! (ex:duck is-a bird) (ex:dodo is-a bird) (ex:dodo fly cannot) (ex:dodo weight 15))
+
+#salience 5
+(   (<x> is-a bird)
+    -{(<x> fly cannot)}
+->  "Flying birds"
+    (! (<x> fly can))
+)
+#stratum
+((<x> fly can) -> "Flyers" (! (<x> flies yes)))
+
+(   (<x> is-a bird)
+->  <x>
+)
+`;
+
+/**
+ * Exports a run knowledge base, loads the export into a fresh Reasoner and runs it.
+ */
+function roundTrip(input: string, options: ReasonerOptions = {}) {
+  const {reasoner} = loaded(input, options);
+  reasoner.run();
+  const exported = exportSource(reasoner);
+  const {reasoner: copy, messages} = loaded(exported, options);
+  copy.run();
+  return {reasoner, exported, copy, messages};
+}
+
+describe('exportSource', () => {
+  it('writes source text that rebuilds the same knowledge base', () => {
+    const {reasoner, copy, messages} = roundTrip(zoo);
+    expect(messages.warn).to.deep.equal([]);
+    expect(messages.error).to.deep.equal([]);
+    expect(facts(copy)).to.have.members(facts(reasoner));
+    expect(copy.productions.map(p => [p.production.rhs, p.salience])).to.deep.equal([['Flying birds', 5], ['Flyers', 0]]);
+    expect(copy.strata.map(stratum => stratum.length)).to.deep.equal([1, 1]);
+    expect(copy.patternsForAttributes).to.deep.equal(reasoner.patternsForAttributes);
+    expect(copy.prefixes).to.deep.equal(reasoner.prefixes);
+    expect(copy.schemaCheck).to.equal(true);
+    expect(copy.runQueries()[0].bindings).to.have.deep.members(reasoner.runQueries()[0].bindings);
+  });
+
+  it('writes the queries as they were written', () => {
+    const {exported} = roundTrip(zoo);
+    expect(exported).to.contain('(   (<x> is-a bird)\n->  <x>\n)');
+  });
+
+  it('leaves out what the productions derived', () => {
+    const {exported} = roundTrip(zoo);
+    expect(exported).to.not.contain('flies yes');
+  });
+
+  it('writes the same text again from the knowledge base it rebuilds', () => {
+    const {exported, copy} = roundTrip(zoo);
+    expect(exportSource(copy)).to.equal(exported);
+  });
+
+  it('rebuilds the knowledge base of test2.rete', async () => {
+    const {reasoner, copy} = roundTrip(await readFile('test2.rete', 'utf8'), {strategy: 'stratifiedManual'});
+    expect(facts(copy)).to.have.members(facts(reasoner));
+    expect(copy.productions.map(p => p.production.rhs)).to.deep.equal(reasoner.productions.map(p => p.production.rhs));
+  });
+});
@@ -0,0 +1,100 @@
+import {expect} from 'chai';
+import {formatFactImport, formatTriples, parseFactMapping, triplesOf} from '../src/facts';
+
+describe('triplesOf', () => {
+  describe('csv', () => {
+    it('makes a triple of each column but the key, keyed by the first column', () => {
+      expect(triplesOf('csv', 'name,legs,class\nduck,2,bird\ndog,4,mammal\n')).to.deep.equal([
+        ['duck', 'legs', '2'],
+        ['duck', 'class', 'bird'],
+        ['dog', 'legs', '4'],
+        ['dog', 'class', 'mammal'],
+      ]);
+    });
+
+    it('reads quoted fields with commas, line breaks and doubled quotes', () => {
+      expect(triplesOf('csv', 'name,motto\r\nduck,"quack, ""quack""\nquack"\r\n')).to.deep.equal([
+        ['duck', 'motto', 'quack,_quack_quack'],
+      ]);
+    });
+
+    it('follows the key and the columns of the mapping, and skips empty values', () => {
+      expect(triplesOf('csv', 'legs,name,class\n2,duck,\n4,dog,mammal', {key: 'name', columns: ['class']})).to.deep.equal([
+        ['dog', 'class', 'mammal'],
+      ]);
+    });
+
+    it('throws on records of the wrong length and on unknown columns', () => {
+      expect(() => triplesOf('csv', 'name,legs\nduck,2,bird')).to.throw('CSV record 2 has 3 fields, but the header has 2');
+      expect(() => triplesOf('csv', 'name,legs\nduck,2', {key: 'id'})).to.throw('No key column id');
+      expect(() => triplesOf('csv', 'name,legs\nduck,2', {columns: ['wings']})).to.throw('No column wings');
+      expect(() => triplesOf('csv', 'name\n"duck')).to.throw('Unterminated quoted field');
+    });
+  });
+
+  describe('json', () => {
+    it('reads an array of objects, with a triple for each element of array values', () => {
+      expect(triplesOf('json', '[{"id": "duck", "legs": 2, "eats": ["bread", "grass"]}]')).to.deep.equal([
+        ['duck', 'legs', '2'],
+        ['duck', 'eats', 'bread'],
+        ['duck', 'eats', 'grass'],
+      ]);
+    });
+
+    it('reads an object of objects keyed by their id, and links nested objects by their key', () => {
+      expect(triplesOf('json', '{"duck": {"pond": {"id": "pond1", "depth": 1.5}}}')).to.deep.equal([
+        ['duck', 'pond', 'pond1'],
+        ['pond1', 'depth', '1.5'],
+      ]);
+    });
+
+    it('throws on invalid JSON and on objects without a key', () => {
+      expect(() => triplesOf('json', '[{')).to.throw('Invalid JSON');
+      expect(() => triplesOf('json', '[{"legs": 2}]')).to.throw('has no id');
+      expect(() => triplesOf('json', '"duck"')).to.throw('Expected an array of objects or an object of objects');
+    });
+  });
+
+  describe('ntriples', () => {
+    it('keeps IRIs and blank nodes as symbols and drops the quotes, tags and datatypes of literals', () => {
+      const text = [
+        '# ducks',
+        '<http://example.org/duck> <http://example.org/legs> "2"^^<http://www.w3.org/2001/XMLSchema#integer> .',
+        '_:b1 <http://example.org/name> "Donald Duck"@en .',
+        '',
+      ].join('\n');
+      expect(triplesOf('ntriples', text)).to.deep.equal([
+        ['http://example.org/duck', 'http://example.org/legs', '2'],
+        ['_:b1', 'http://example.org/name', 'Donald_Duck'],
+      ]);
+    });
+
+    it('throws with the line of a malformed statement', () => {
+      expect(() => triplesOf('ntriples', '<a> <b> <c> .\n<a> <b>')).to.throw('Malformed N-Triples line 2');
+    });
+  });
+});
+
+describe('parseFactMapping', () => {
+  it('parses the key and the columns', () => {
+    expect(parseFactMapping(['key=name', 'columns=legs,class'])).to.deep.equal({key: 'name', columns: ['legs', 'class']});
+  });
+
+  it('returns an error message for words it does not understand', () => {
+    expect(parseFactMapping(['keys=name'])).to.be.a('string').that.contains('Unknown mapping keys=name');
+  });
+});
+
+describe('formatTriples', () => {
+  it('formats triples as an assert clause', () => {
+    expect(formatTriples([['duck', 'legs', '2'], ['dog', 'legs', '4']])).to.equal('(!\n (duck legs 2)\n (dog legs 4)\n)');
+  });
+});
+
+describe('formatFactImport', () => {
+  it('counts only what there is', () => {
+    expect(formatFactImport({path: 'animals.csv', added: 1, duplicates: 0, refused: 0})).to.equal('animals.csv: 1 fact added');
+    expect(formatFactImport({path: 'animals.csv', added: 12, duplicates: 3, refused: 1}))
+      .to.equal('animals.csv: 12 facts added, 3 duplicates, 1 refused');
+  });
+});
@@ -0,0 +1,144 @@
+import {expect} from 'chai';
+import {
+  createFuzzySystem,
+  DeclaredFuzzyVariable,
+  defuzzify,
+  formatFuzzyValDefinition,
+  FuzzyVariableKind,
+  inverseMembership,
+  membership,
+  NamedFuzzySystem,
+  parseFuzzyValDefinition,
+  universeOfDiscourse,
+} from '../src/fuzzy';
+
+const levels: FuzzyVariableKind = {
+  name: 'low-high',
+  definitions: [
+    {name: 'low', fnc: 'tri', a: 0, b: 0, c: 5},
+    {name: 'medium', fnc: 'tri', a: 0, b: 5, c: 10},
+    {name: 'high', fnc: 'tri', a: 5, b: 10, c: 10},
+  ],
+};
+
+describe('membership functions', () => {
+  it('compute the degree of membership of crisp values', () => {
+    expect(membership({name: 'warm', a: 2, c: 20}, 20)).to.equal(0.5);
+    expect(membership({name: 'warm', fnc: 'tri', a: 0, b: 5, c: 10}, 2.5)).to.equal(0.5);
+    expect(membership({name: 'warm', fnc: 'tri', a: 0, b: 5, c: 10}, 11)).to.equal(0);
+    expect(membership({name: 'warm', fnc: 'trap', a: 0, b: 2, c: 4, d: 8}, 3)).to.equal(1);
+    expect(membership({name: 'warm', fnc: 'trap', a: 0, b: 2, c: 4, d: 8}, 6)).to.equal(0.5);
+    expect(membership({name: 'warm', fnc: 'gauss', mean: 20, sigma: 3}, 20)).to.equal(1);
+    expect(membership({name: 'warm', fnc: 'gauss', mean: 20, sigma: 3}, 23)).to.be.closeTo(Math.exp(-0.5), 1e-12);
+    expect(membership({name: 'warm', fnc: 'singleton', value: 20}, 20)).to.equal(1);
+    expect(membership({name: 'warm', fnc: 'singleton', value: 20}, 21)).to.equal(0);
+  });
+
+  it('invert sigmoids, and give the middle of the interval of at least the degree for the others', () => {
+    expect(inverseMembership({name: 'warm', a: 2, c: 20}, 0.5)).to.equal(20);
+    expect(membership({name: 'warm', a: 2, c: 20}, inverseMembership({name: 'warm', a: 2, c: 20}, 0.8))).to.be.closeTo(0.8, 1e-12);
+    expect(inverseMembership({name: 'warm', fnc: 'tri', a: 0, b: 2, c: 10}, 0.5)).to.equal(3.5);
+    expect(inverseMembership({name: 'warm', fnc: 'gauss', mean: 20, sigma: 3}, 0.1)).to.equal(20);
+  });
+
+  it('are parsed and formatted as in #fuzzy kind', () => {
+    expect(parseFuzzyValDefinition('warm', 'trap 0 2 4 8')).to.deep.equal({name: 'warm', fnc: 'trap', a: 0, b: 2, c: 4, d: 8});
+    expect(parseFuzzyValDefinition('warm', 'sigmoid 2 20')).to.deep.equal({name: 'warm', a: 2, c: 20});
+    expect(formatFuzzyValDefinition({name: 'warm', fnc: 'gauss', mean: 20, sigma: 3})).to.equal('warm:gauss 20 3');
+    expect(formatFuzzyValDefinition({name: 'warm', a: 2, c: 20})).to.equal('warm:sigmoid 2 20');
+  });
+
+  it('are refused when malformed', () => {
+    expect(parseFuzzyValDefinition('warm', 'cosine 1 2')).to.be.a('string').that.contains('Unknown membership function cosine');
+    expect(parseFuzzyValDefinition('warm', 'tri 0 5')).to.be.a('string').that.contains('Invalid');
+    expect(parseFuzzyValDefinition('warm', 'tri 5 0 10')).to.be.a('string').that.contains('ascending order');
+    expect(parseFuzzyValDefinition('warm', 'gauss 20 0')).to.be.a('string').that.contains('must be positive');
+  });
+});
+
+describe('hedges', () => {
+  const level = new DeclaredFuzzyVariable('level', levels);
+
+  it('concentrate, dilate and complement the membership of the value they prefix', () => {
+    expect(level.computeMembershipValueForFuzzyValue('medium', 2.5)).to.equal(0.5);
+    expect(level.computeMembershipValueForFuzzyValue('very-medium', 2.5)).to.equal(0.25);
+    expect(level.computeMembershipValueForFuzzyValue('somewhat-medium', 2.5)).to.be.closeTo(Math.sqrt(0.5), 1e-12);
+    expect(level.computeMembershipValueForFuzzyValue('not-medium', 2.5)).to.equal(0.5);
+    expect(level.computeMembershipValueForFuzzyValue('not-very-medium', 2.5)).to.equal(0.75);
+  });
+
+  it('are undone when computing a crisp value', () => {
+    expect(level.computeValueForFuzzyMembershipValue('very-high', 0.25)).to.equal(8.75);
+  });
+
+  it('only make fuzzy values of the values of the kind', () => {
+    expect(level.isFuzzyValue('very-very-low')).to.equal(true);
+    expect(level.isFuzzyValue('very-lowish')).to.equal(false);
+    expect(level.isFuzzyValue('extremely-low')).to.equal(false);
+  });
+});
+
+describe('defuzzify', () => {
+  const level = new DeclaredFuzzyVariable('level', levels);
+
+  it('covers where the membership functions are not negligible when no range is declared', () => {
+    expect(universeOfDiscourse(levels)).to.deep.equal([0, 10]);
+    expect(universeOfDiscourse({name: 'warm', definitions: [{name: 'warm', fnc: 'gauss', mean: 20, sigma: 3}]})).to.deep.equal([8, 32]);
+  });
+
+  it('averages the crisp values of each μ-value with inverse-average', () => {
+    expect(defuzzify('inverse-average', level, [['medium', 0.5], ['high', 0.5]], 'clip')).to.equal(6.875);
+  });
+
+  it('takes the centroid, the bisector and the mean of maxima of the clipped memberships', () => {
+    const memberships: [string, number][] = [['low', 1]];
+    expect(defuzzify('centroid', level, memberships, 'clip')).to.be.closeTo(5 / 3, 0.01);
+    expect(defuzzify('bisector', level, memberships, 'clip')).to.be.closeTo(5 - 5 / Math.SQRT2, 0.01);
+    expect(defuzzify('mom', level, memberships, 'clip')).to.equal(0);
+  });
+
+  it('scales the memberships instead of clipping them if so implied', () => {
+    expect(defuzzify('mom', level, [['medium', 0.5]], 'clip')).to.be.closeTo(5, 1e-9);
+    expect(defuzzify('mom', level, [['medium', 0.5], ['high', 0.4]], 'scale')).to.be.closeTo(5, 1e-9);
+    expect(defuzzify('mom', level, [['medium', 0.4], ['high', 0.5]], 'scale')).to.be.closeTo(10, 1e-9);
+  });
+
+  it('returns undefined when nothing has a positive membership', () => {
+    expect(defuzzify('centroid', level, [['low', 0]], 'clip')).to.equal(undefined);
+  });
+});
+
+describe('fuzzy systems', () => {
+  const system = (name: string, parameters: number[] = []) => createFuzzySystem(name, parameters) as NamedFuzzySystem;
+  const expected: [string, number[], number, number][] = [
+    // name, parameters, conjunction and disjunction of 0.3 and 0.8
+    ['min-max', [], 0.3, 0.8],
+    ['multiplicative', [], 0.24, 0.86],
+    ['lukasiewicz', [], 0.1, 1],
+    ['einstein', [], 0.24 / 1.14, 1.1 / 1.24],
+    ['hamacher', [1], 0.24, 0.86],
+    ['hamacher', [0], 0.24 / 0.86, 1 - 0.14 / 0.76],
+    ['drastic', [], 0, 1],
+  ];
+
+  for (const [name, parameters, conjunction, disjunction] of expected) {
+    it(`${name}${parameters.length ? ` ${parameters.join(' ')}` : ''} combines μ-values with its t-norm and t-conorm`, () => {
+      expect(system(name, parameters).computeConjunction(0.3, 0.8)).to.be.closeTo(conjunction, 1e-12);
+      expect(system(name, parameters).computeDisjunction(0.3, 0.8)).to.be.closeTo(disjunction, 1e-12);
+    });
+  }
+
+  it('have 1 as the unit of their t-norm and 0 as the unit of their t-conorm', () => {
+    for (const name of ['min-max', 'multiplicative', 'lukasiewicz', 'einstein', 'drastic']) {
+      expect(system(name).computeConjunction(1, 0.3), name).to.be.closeTo(0.3, 1e-12);
+      expect(system(name).computeDisjunction(0, 0.3), name).to.be.closeTo(0.3, 1e-12);
+    }
+  });
+
+  it('are created by name, with their parameters kept for sessions', () => {
+    expect(system('łukasiewicz').name).to.equal('lukasiewicz');
+    expect(system('hamacher', [0.5]).parameters).to.deep.equal([0.5]);
+    expect(createFuzzySystem('hamacher')).to.be.a('string').that.contains('non-negative parameter');
+    expect(createFuzzySystem('yager')).to.be.a('string').that.contains('Unknown fuzzy system yager');
+  });
+});
@@ -0,0 +1,42 @@
+import {expect} from 'chai';
+import {formatJustificationGraph, JustificationGraph, justificationGraphToDot} from '../src/graph';
+
+/**
+ * A fuzzy production justification, and a quoted value to escape in DOT.
+ */
+const graph: JustificationGraph = {
+  nodes: [
+    {id: 'w0', kind: 'wme', label: '(duck hunting-possible-by shooting)'},
+    {id: 'j0', kind: 'production', label: 'Hunting by shooting', μ: 0.5},
+    {id: 'w1', kind: 'wme', label: '(duck fly "can")'},
+    {id: 'j1', kind: 'axiomatic', label: 'Axiomatic'},
+  ],
+  edges: [
+    {from: 'j0', to: 'w0'},
+    {from: 'j1', to: 'w1'},
+    {from: 'w1', to: 'j0'},
+  ],
+};
+
+describe('justification graphs', () => {
+  it('are written as Graphviz DOT, supporting nodes below the nodes they support', () => {
+    expect(justificationGraphToDot(graph)).to.equal([
+      'digraph justifications {',
+      '  rankdir=BT;',
+      '  w0 [label="(duck hunting-possible-by shooting)", shape=box];',
+      '  j0 [label="Hunting by shooting\nμ=0.5", shape=ellipse];',
+      '  w1 [label="(duck fly \\"can\\")", shape=box];',
+      '  j1 [label="[Axiomatic]", shape=plaintext];',
+      '  j0 -> w0;',
+      '  j1 -> w1;',
+      '  w1 -> j0;',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  it('are written as JSON', () => {
+    expect(JSON.parse(formatJustificationGraph(graph, 'json'))).to.deep.equal(graph);
+    expect(formatJustificationGraph(graph, 'dot')).to.equal(justificationGraphToDot(graph));
+  });
+});
@@ -0,0 +1,40 @@
+import {Reasoner, ReasonerOptions, Reporter} from '../src/reasoner';
+
+/**
+ * A reporter that keeps the messages written to it, by kind.
+ */
+export function recordingReporter() {
+  const messages = {log: [] as string[], warn: [] as string[], error: [] as string[]};
+  const reporter: Reporter = {
+    log: message => messages.log.push(message),
+    warn: message => messages.warn.push(message),
+    error: message => messages.error.push(message),
+  };
+  return {reporter, messages};
+}
+
+/**
+ * A fresh Reasoner with the options given and a recording reporter, with source text loaded into it.
+ */
+export function loaded(input: string, options: ReasonerOptions = {}, path?: string) {
+  const {reporter, messages} = recordingReporter();
+  const reasoner = new Reasoner({...options, reporter});
+  const loadResult = reasoner.load(input, path);
+  return {reasoner, loadResult, messages};
+}
+
+/**
+ * The WMEs of the working memory as `id attr val`, only those of an attribute if given.
+ */
+export function facts(reasoner: Reasoner, attr?: string): string[] {
+  return reasoner.rete.working_memory
+    .filter(w => attr === undefined || w.fields[1] === attr)
+    .map(w => w.fields.join(' '));
+}
+
+/**
+ * The names of the productions fired, in order, from the trace of a Reasoner with the trace option.
+ */
+export function firings(log: string[]): string[] {
+  return log.flatMap(message => message.match(/^Firing production "(.*)"$/)?.[1] ?? []);
+}
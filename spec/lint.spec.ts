@@ -0,0 +1,93 @@
+import {expect} from 'chai';
+import {mkdtemp, rm, writeFile} from 'fs/promises';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {analyzeSource, formatLintIssue, lint, LintIssue} from '../src/lint';
+
+const codesAndLines = (issues: LintIssue[]) => issues.map(({line, code}) => [line, code]);
+
+describe('lint', () => {
+  it('reports parse errors at the line of the chunk of clauses they are in', () => {
+    const issues = lint('(! (duck is-a bird))\n#stratum\n((<x> is-a bird) -> "Broken" (! (<x> fly', 'kb.rete');
+    expect(codesAndLines(issues)).to.deep.equal([[3, 'parse']]);
+    expect(issues[0].severity).to.equal('error');
+  });
+
+  it('reports the warnings of the reasoner at the line of the directive causing them', () => {
+    expect(lint('(! (duck is-a bird))\n#salience high\n((<x> is-a bird) -> "Flyers" (! (<x> fly can)))\n')).to.deep.equal([
+      {line: 2, severity: 'warning', code: 'reasoner', message: 'Malformed directive #salience high'},
+    ]);
+  });
+
+  it('reports fuzzy variables of undeclared kinds once, comparing kinds case-insensitively', () => {
+    expect(lint([
+      '#fuzzy kind Size small:sigmoid -4 0.3, big:sigmoid 4 0.7',
+      '#fuzzy var weight size',
+      '#fuzzy var height SIZE',
+      '#fuzzy var depth length',
+    ].join('\n'))).to.deep.equal([
+      {line: 4, severity: 'error', code: 'undeclared-kind', message: 'Fuzzy variable depth is of undeclared kind length'},
+    ]);
+  });
+
+  it('reports productions reading attributes that nothing produces', () => {
+    const issues = lint('(! (duck is-a bird))\n((<x> has feathers) -{(<x> fly cannot)} -> "Feathered" (! (<x> fly can)))\n');
+    expect(codesAndLines(issues)).to.deep.equal([[2, 'never-fires']]);
+    expect(issues[0].message).to.contain('Production "Feathered" can never fire: no assert produces attribute has');
+  });
+
+  it('reports productions reading attributes only produced in later strata', () => {
+    expect(lint([
+      '((<x> fly can) -> "Flyers" (! (<x> flies yes)))',
+      '#stratum',
+      '((<x> is-a bird) -> "Flying birds" (! (<x> fly can)))',
+      '(! (duck is-a bird))',
+    ].join('\n'))).to.deep.equal([
+      {line: 1, severity: 'warning', code: 'stratum-order', message: 'Production "Flyers" in stratum 0 reads attribute fly, which is only produced in stratum 1'},
+    ]);
+  });
+
+  it('reports variables of the RHS that the LHS does not bind', () => {
+    const issues = lint('(! (duck is-a bird))\n((<x> is-a bird) -> "Unbound" (! (<x> eats <food>)))\n');
+    expect(issues.map(issue => formatLintIssue('kb.rete', issue))).to.deep.equal([
+      'kb.rete:2: error: Variable <food> in the RHS of production "Unbound" is not bound in its LHS [unbound-variable]',
+    ]);
+  });
+
+  it('reports productions named like earlier ones, at the line of their name', () => {
+    expect(lint([
+      '((<x> is-a bird) -> "Flyers" (! (<x> fly can)))',
+      '(! (duck is-a bird) (concorde is-a plane))',
+      '',
+      '(   (<x> is-a plane)',
+      '->  "Flyers"',
+      '    (! (<x> fly can))',
+      ')',
+    ].join('\n'))).to.deep.equal([
+      {line: 5, severity: 'error', code: 'duplicate-name', message: 'Production name "Flyers" is used 2 times; justifications of the productions would be confused'},
+    ]);
+  });
+
+  it('reports schema entries of attributes used nowhere', () => {
+    expect(lint('#schema _ is-a _\n#schema _ color! _\n(! (duck is-a bird))\n')).to.deep.equal([
+      {line: 2, severity: 'warning', code: 'unused-schema', message: 'Schema entry for attribute color is not used by any fact or condition'},
+    ]);
+  });
+
+  it('reports the problems of included files at the line of the #include, and locates their productions', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'rete-lint-'));
+    try {
+      await writeFile(join(directory, 'flyers.rete'), '\n((<x> is-a bird) -> "Flyers" (! (<x> flies <how>)))\n');
+      const {reasoner, issues, locationOfProduction} = analyzeSource(
+        '(! (duck is-a bird))\n#include flyers.rete\n((<x> flies <how>) -> "Happy" (! (<x> is happy)))\n',
+        join(directory, 'main.rete'),
+      );
+      expect(codesAndLines(issues)).to.deep.equal([[2, 'unbound-variable']]);
+      const [flyers, happy] = reasoner.productions;
+      expect(locationOfProduction.get(flyers)).to.deep.equal({file: join(directory, 'flyers.rete'), line: 2});
+      expect(locationOfProduction.get(happy)).to.deep.equal({line: 3});
+    } finally {
+      await rm(directory, {recursive: true, force: true});
+    }
+  });
+});
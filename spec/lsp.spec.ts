@@ -0,0 +1,142 @@
+import {expect} from 'chai';
+import {ChildProcessWithoutNullStreams, spawn} from 'child_process';
+
+type Message = {id?: number, method?: string, params?: unknown, result?: unknown, error?: unknown};
+
+/**
+ * The language server of the command line tool, talked to over its standard input and output.
+ */
+class LanguageServerProcess {
+  private readonly child: ChildProcessWithoutNullStreams;
+  private buffer = Buffer.alloc(0);
+  private readonly received: Message[] = [];
+  private readonly waiting: {matches: (message: Message) => boolean, resolve: (message: Message) => void}[] = [];
+  private lastId = 0;
+
+  constructor() {
+    this.child = spawn(process.execPath, ['--import', 'tsx', 'src/cli.ts', '--lsp']);
+    this.child.stdout.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      for (;;) {
+        const headerEnd = this.buffer.indexOf('\r\n\r\n');
+        const contentLength = Number(this.buffer.subarray(0, headerEnd).toString('ascii').match(/Content-Length: (\d+)/)?.[1]);
+        if (headerEnd < 0 || this.buffer.length < headerEnd + 4 + contentLength) return;
+        this.received.push(JSON.parse(this.buffer.subarray(headerEnd + 4, headerEnd + 4 + contentLength).toString('utf8')));
+        this.buffer = this.buffer.subarray(headerEnd + 4 + contentLength);
+        this.dispatch();
+      }
+    });
+  }
+
+  private dispatch() {
+    for (const waiter of [...this.waiting]) {
+      const index = this.received.findIndex(waiter.matches);
+      if (index >= 0) {
+        this.waiting.splice(this.waiting.indexOf(waiter), 1);
+        waiter.resolve(this.received.splice(index, 1)[0]);
+      }
+    }
+  }
+
+  private next(matches: (message: Message) => boolean): Promise<Message> {
+    return new Promise(resolve => {
+      this.waiting.push({matches, resolve});
+      this.dispatch();
+    });
+  }
+
+  notify(method: string, params?: unknown) {
+    const json = JSON.stringify({jsonrpc: '2.0', method, params});
+    this.child.stdin.write(`Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`);
+  }
+
+  async request(method: string, params?: unknown): Promise<Message> {
+    const id = ++this.lastId;
+    const json = JSON.stringify({jsonrpc: '2.0', id, method, params});
+    this.child.stdin.write(`Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`);
+    return this.next(message => message.id === id);
+  }
+
+  notification(method: string): Promise<Message> {
+    return this.next(message => message.method === method);
+  }
+
+  exited(): Promise<number | null> {
+    return new Promise(resolve => this.child.exitCode !== null ? resolve(this.child.exitCode) : this.child.once('exit', resolve));
+  }
+
+  kill() {
+    this.child.exitCode === null && this.child.kill();
+  }
+}
+
+const uri = 'file:///tmp/kb.rete';
+
+const text = [
+  '#schema _ color :enum(red|green) "Its color"',
+  '#schema _ sees _',
+  '(! (duck color red))',
+  '((<x> color red) -> "Red" (! (<x> sees red)))',
+  '((<x> sees <y>) -> "Unbound" (! (<x> eats <food>)))',
+].join('\n');
+
+describe('language server', function () {
+  this.timeout(120000);
+  let server: LanguageServerProcess;
+
+  before(async () => {
+    server = new LanguageServerProcess();
+    const {result} = await server.request('initialize', {capabilities: {}});
+    expect(result).to.have.nested.property('capabilities.definitionProvider', true);
+  });
+
+  after(() => server.kill());
+
+  it('publishes the problems of a document when it is opened', async () => {
+    const diagnostics = server.notification('textDocument/publishDiagnostics');
+    server.notify('textDocument/didOpen', {textDocument: {uri, languageId: 'rete', version: 1, text}});
+    expect((await diagnostics).params).to.deep.equal({
+      uri,
+      diagnostics: [{
+        range: {start: {line: 4, character: 0}, end: {line: 4, character: text.split('\n')[4].length}},
+        severity: 1,
+        code: 'unbound-variable',
+        source: 'rete',
+        message: 'Variable <food> in the RHS of production "Unbound" is not bound in its LHS',
+      }],
+    });
+  });
+
+  it('completes attributes, and the values of an attribute', async () => {
+    const attributes = await server.request('textDocument/completion', {textDocument: {uri}, position: {line: 4, character: 6}});
+    expect(attributes.result).to.deep.equal([
+      {label: 'color', kind: 10, detail: '"Its color"'},
+      {label: 'sees', kind: 10},
+    ]);
+    const values = await server.request('textDocument/completion', {textDocument: {uri}, position: {line: 3, character: 12}});
+    expect(values.result).to.deep.equal([{label: 'red', kind: 20}, {label: 'green', kind: 20}]);
+  });
+
+  it('shows the schema of an attribute on hover', async () => {
+    const {result} = await server.request('textDocument/hover', {textDocument: {uri}, position: {line: 3, character: 7}});
+    expect(result).to.deep.equal({contents: {kind: 'markdown', value: '```\n#schema _ color :enum(red|green) "Its color"\n```'}});
+  });
+
+  it('goes from a condition to the productions asserting what it matches', async () => {
+    const {result} = await server.request('textDocument/definition', {textDocument: {uri}, position: {line: 4, character: 3}});
+    expect(result).to.deep.equal([
+      {uri, range: {start: {line: 3, character: 0}, end: {line: 3, character: text.split('\n')[3].length}}},
+    ]);
+  });
+
+  it('replies an error to the requests of methods it does not know', async () => {
+    const {error} = await server.request('textDocument/rename', {textDocument: {uri}, position: {line: 3, character: 7}, newName: 'hue'});
+    expect(error).to.deep.equal({code: -32601, message: 'Unknown method textDocument/rename'});
+  });
+
+  it('exits with status 0 after a shutdown', async () => {
+    expect((await server.request('shutdown')).result).to.equal(null);
+    server.notify('exit');
+    expect(await server.exited()).to.equal(0);
+  });
+});
@@ -0,0 +1,76 @@
+import {expect} from 'chai';
+import {describeQuery, formatQueryResults, queryResultObject} from '../src/output';
+import {QueryResult} from '../src/types';
+
+const hunting: QueryResult = {
+  lhs: [],
+  variables: ['species', 'mode'],
+  text: '((<species> hunting-possible-by <mode>) -> <species>, <mode>)',
+  bindings: [
+    {species: 'duck', mode: 'shooting'},
+    {species: 'dodo', mode: 'chasing, "on foot"'},
+  ],
+};
+
+const flightless: QueryResult = {
+  lhs: [],
+  variables: [],
+  text: '((penguin fly can) -> )',
+  bindings: [],
+};
+
+describe('describeQuery', () => {
+  it('describes a query as written', () => {
+    expect(describeQuery(hunting)).to.equal('((<species> hunting-possible-by <mode>) -> <species>, <mode>)');
+  });
+
+  it('rebuilds queries without text from their conditions', () => {
+    expect(describeQuery({...hunting, text: undefined})).to.equal('() -> <species>, <mode>');
+  });
+});
+
+describe('formatQueryResults', () => {
+  it('formats text as Yes. or No. and a line per binding', () => {
+    expect(formatQueryResults([hunting, flightless])).to.equal([
+      'Yes.',
+      '0||species:duck',
+      '0||mode:shooting',
+      '1||species:dodo',
+      '1||mode:chasing, "on foot"',
+      'No.',
+    ].join('\n'));
+  });
+
+  it('echoes the queries if asked', () => {
+    expect(formatQueryResults([flightless], 'text', true)).to.equal('Running: ((penguin fly can) -> )\nNo.');
+  });
+
+  it('formats JSON Lines, with the query as written', () => {
+    const lines = formatQueryResults([hunting, flightless], 'json').split('\n');
+    expect(lines.map(line => JSON.parse(line))).to.deep.equal([queryResultObject(hunting), queryResultObject(flightless)]);
+    expect(JSON.parse(lines[0]).query).to.equal(hunting.text);
+  });
+
+  it('formats CSV, quoting the fields that need it, with a blank line between queries', () => {
+    expect(formatQueryResults([hunting, hunting], 'csv')).to.equal([
+      'species,mode',
+      'duck,shooting',
+      'dodo,"chasing, ""on foot"""',
+      '',
+      'species,mode',
+      'duck,shooting',
+      'dodo,"chasing, ""on foot"""',
+    ].join('\n'));
+  });
+
+  it('formats tables in aligned columns', () => {
+    expect(formatQueryResults([hunting, flightless], 'table')).to.equal([
+      'species | mode',
+      '--------+-------------------',
+      'duck    | shooting',
+      'dodo    | chasing, "on foot"',
+      '(2 rows)',
+      'No.',
+    ].join('\n'));
+  });
+});
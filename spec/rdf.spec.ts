@@ -0,0 +1,122 @@
+import {expect} from 'chai';
+import {exportWorkingMemory} from '../src/rdf';
+import {loaded} from './helpers';
+
+const tweety = `
+#prefix ex: <http://example.org/zoo/>
+(! (ex:tweety is-a bird) (ex:tweety weight 1.5))
+((<x> is-a bird) -> "Flyers" (! (<x> flies true)))
+`;
+
+function run(input: string) {
+  const {reasoner} = loaded(input);
+  reasoner.run();
+  return reasoner;
+}
+
+const lines = (...ls: string[]) => ls.map(l => `${l}\n`).join('');
+
+describe('exportWorkingMemory', () => {
+  it('writes Turtle, with IRIs compacted by the prefixes and numbers and booleans as typed literals', () => {
+    expect(exportWorkingMemory(run(tweety), {format: 'turtle'})).to.equal(lines(
+      '@prefix rete: <urn:rete:> .',
+      '@prefix ex: <http://example.org/zoo/> .',
+      '',
+      'ex:tweety rete:is-a rete:bird .',
+      'ex:tweety rete:weight 1.5 .',
+      'ex:tweety rete:flies true .',
+    ));
+  });
+
+  it('writes N-Triples, with symbols without a prefix in the namespace of the empty prefix', () => {
+    const reasoner = run(`#prefix : <http://example.org/vocabulary#>\n${tweety}`);
+    expect(exportWorkingMemory(reasoner, {format: 'ntriples'})).to.equal(lines(
+      '<http://example.org/zoo/tweety> <http://example.org/vocabulary#is-a> <http://example.org/vocabulary#bird> .',
+      '<http://example.org/zoo/tweety> <http://example.org/vocabulary#weight> "1.5"^^<http://www.w3.org/2001/XMLSchema#decimal> .',
+      '<http://example.org/zoo/tweety> <http://example.org/vocabulary#flies> "true"^^<http://www.w3.org/2001/XMLSchema#boolean> .',
+    ));
+  });
+
+  it('writes JSON-LD, with a node object per subject', () => {
+    expect(JSON.parse(exportWorkingMemory(run(tweety), {format: 'jsonld'}))).to.deep.equal({
+      '@context': {xsd: 'http://www.w3.org/2001/XMLSchema#', rete: 'urn:rete:', ex: 'http://example.org/zoo/'},
+      '@graph': [{
+        '@id': 'ex:tweety',
+        'rete:is-a': [{'@id': 'rete:bird'}],
+        'rete:weight': [{'@value': '1.5', '@type': 'xsd:decimal'}],
+        'rete:flies': [{'@value': 'true', '@type': 'xsd:boolean'}],
+      }],
+    });
+  });
+
+  it('selects the axiomatic or the derived WMEs', () => {
+    const reasoner = run(tweety);
+    expect(exportWorkingMemory(reasoner, {format: 'ntriples', select: 'axiomatic'})).to.equal(lines(
+      '<http://example.org/zoo/tweety> <urn:rete:is-a> <urn:rete:bird> .',
+      '<http://example.org/zoo/tweety> <urn:rete:weight> "1.5"^^<http://www.w3.org/2001/XMLSchema#decimal> .',
+    ));
+    expect(exportWorkingMemory(reasoner, {format: 'ntriples', select: 'derived'})).to.equal(lines(
+      '<http://example.org/zoo/tweety> <urn:rete:flies> "true"^^<http://www.w3.org/2001/XMLSchema#boolean> .',
+    ));
+  });
+
+  describe('with the provenance as annotations', () => {
+    it('writes RDF-star annotations in Turtle', () => {
+      expect(exportWorkingMemory(run(tweety), {format: 'turtle', provenance: 'annotation'})).to.equal(lines(
+        '@prefix rete: <urn:rete:> .',
+        '@prefix prov: <http://www.w3.org/ns/prov#> .',
+        '@prefix ex: <http://example.org/zoo/> .',
+        '',
+        'ex:tweety rete:is-a rete:bird {| prov:wasGeneratedBy rete:axiom |} .',
+        'ex:tweety rete:weight 1.5 {| prov:wasGeneratedBy rete:axiom |} .',
+        'ex:tweety rete:flies true {| prov:wasGeneratedBy <urn:rete:production:Flyers> |} .',
+      ));
+    });
+
+    it('writes statements about quoted triples in N-Triples', () => {
+      expect(exportWorkingMemory(run(tweety), {format: 'ntriples', select: 'derived', provenance: 'annotation'})).to.equal(lines(
+        '<http://example.org/zoo/tweety> <urn:rete:flies> "true"^^<http://www.w3.org/2001/XMLSchema#boolean> .',
+        '<< <http://example.org/zoo/tweety> <urn:rete:flies> "true"^^<http://www.w3.org/2001/XMLSchema#boolean> >> <http://www.w3.org/ns/prov#wasGeneratedBy> <urn:rete:production:Flyers> .',
+      ));
+    });
+
+    it('writes @annotation in JSON-LD', () => {
+      const {'@graph': [node]} = JSON.parse(exportWorkingMemory(run(tweety), {format: 'jsonld', select: 'derived', provenance: 'annotation'}));
+      expect(node['rete:flies']).to.deep.equal([{
+        '@value': 'true',
+        '@type': 'xsd:boolean',
+        '@annotation': {'prov:wasGeneratedBy': [{'@id': 'urn:rete:production:Flyers'}]},
+      }]);
+    });
+  });
+
+  describe('with the provenance as named graphs', () => {
+    it('writes TriG, a graph per justification', () => {
+      expect(exportWorkingMemory(run(tweety), {format: 'turtle', provenance: 'graph'})).to.equal(lines(
+        '@prefix rete: <urn:rete:> .',
+        '@prefix prov: <http://www.w3.org/ns/prov#> .',
+        '@prefix ex: <http://example.org/zoo/> .',
+        '',
+        'rete:axiom {',
+        '  ex:tweety rete:is-a rete:bird .',
+        '  ex:tweety rete:weight 1.5 .',
+        '}',
+        '<urn:rete:production:Flyers> {',
+        '  ex:tweety rete:flies true .',
+        '}',
+      ));
+    });
+
+    it('writes N-Quads', () => {
+      expect(exportWorkingMemory(run(tweety), {format: 'ntriples', select: 'derived', provenance: 'graph'})).to.equal(lines(
+        '<http://example.org/zoo/tweety> <urn:rete:flies> "true"^^<http://www.w3.org/2001/XMLSchema#boolean> <urn:rete:production:Flyers> .',
+      ));
+    });
+
+    it('writes a graph object per justification in JSON-LD', () => {
+      const {'@graph': graphs} = JSON.parse(exportWorkingMemory(run(tweety), {format: 'jsonld', provenance: 'graph'}));
+      expect(graphs.map((g: {'@id': string}) => g['@id'])).to.deep.equal(['rete:axiom', 'urn:rete:production:Flyers']);
+      expect(graphs[1]['@graph']).to.deep.equal([{'@id': 'ex:tweety', 'rete:flies': [{'@value': 'true', '@type': 'xsd:boolean'}]}]);
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import {expect} from 'chai';
+import {mkdtemp, readFile, rm, writeFile} from 'fs/promises';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {JustificationGraph} from '../src/graph';
+import {Reasoner, SourceError} from '../src/reasoner';
+import {facts, loaded, recordingReporter} from './helpers';
+
+const birds = `
+(!  (duck is-a bird)
+    (robbin is-a bird)
+    (dodo is-a bird)
+    (dodo fly cannot)
+)
+
+(   (<species> is-a bird)
+    -{(<species> fly cannot)}
+-> "Flying birds"
+    (!  (<species> fly can)  )
+)
+
+(   (<species> fly can)
+-> "Hunting by shooting"
+    (!  (<species> hunting-possible-by shooting)  )
+)
+
+(   (<species> hunting-possible-by <mode>)
+->  <species>, <mode>
+)
+`;
+
+const transitiveClosure = `
+(
+    (<attr_> transitive-closure-of <attr>)
+    (<obj1> <attr> <val>)
+->  "Transitive closure base case"
+    (! (<obj1> <attr_> <val>))
+)
+
+(
+    (<attr_> transitive-closure-of <attr>)
+    (<obj1> <attr> <val>)
+    (<val> <attr_> <val2>)
+->  "Transitive closure recursive case"
+    (! (<obj1> <attr_> <val2>))
+)
+`;
+
+describe('Reasoner', () => {
+  describe('load', () => {
+    it('reads asserts, productions and queries', () => {
+      const {reasoner, loadResult} = loaded(birds);
+      expect(loadResult.changed).to.equal(true);
+      expect(reasoner.productions.map(p => p.production.rhs)).to.deep.equal(['Flying birds', 'Hunting by shooting']);
+      expect(reasoner.queries.map(q => q.variables)).to.deep.equal([['species', 'mode']]);
+      expect(facts(reasoner)).to.have.members(['duck is-a bird', 'robbin is-a bird', 'dodo is-a bird', 'dodo fly cannot']);
+    });
+
+    it('answers the queries it reads, before running', () => {
+      const {loadResult} = loaded(birds);
+      expect(loadResult.queryResults).to.have.length(1);
+      expect(loadResult.queryResults[0].bindings).to.deep.equal([]);
+      expect(loadResult.queryResults[0].text).to.equal('(   (<species> hunting-possible-by <mode>)\n->  <species>, <mode>\n)');
+    });
+
+    it('throws on parse errors, with the file and the line when given the path', () => {
+      expect(() => new Reasoner().load('(! (duck is-a bird)')).to.throw();
+      let error: unknown;
+      try {
+        new Reasoner().load('(! (duck is-a bird))\n#stratum\n(! (duck fly', 'birds.rete');
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(SourceError);
+      expect((error as SourceError).line).to.equal(3);
+    });
+
+    it('refuses directives that read files when told not to read files', () => {
+      expect(() => new Reasoner().load('#include birds.rete', undefined, {readFiles: false})).to.throw('reads a file');
+      expect(() => new Reasoner().load('#load csv animals.csv', undefined, {readFiles: false})).to.throw('reads a file');
+    });
+
+    it('reads included files relative to the including file, and records where their productions are', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'rete-include-'));
+      try {
+        await writeFile(join(directory, 'birds.rete'), birds);
+        const {reasoner} = loaded('#include birds.rete\n\n((<x> fly can) -> "Flyers" (! (<x> flies yes)))\n', {}, join(directory, 'main.rete'));
+        const [flying, hunting, flyers] = reasoner.productions;
+        expect(reasoner.locationOfProduction.get(flying)).to.deep.equal({file: join(directory, 'birds.rete'), line: 10});
+        expect(reasoner.locationOfProduction.get(hunting)).to.deep.equal({file: join(directory, 'birds.rete'), line: 15});
+        expect(reasoner.locationOfProduction.get(flyers)).to.deep.equal({file: join(directory, 'main.rete'), line: 3});
+      } finally {
+        await rm(directory, {recursive: true, force: true});
+      }
+    });
+  });
+
+  describe('run', () => {
+    it('computes the stable state', () => {
+      const {reasoner} = loaded(birds);
+      expect(reasoner.run().converged).to.equal(true);
+      expect(facts(reasoner, 'fly')).to.have.members(['duck fly can', 'robbin fly can', 'dodo fly cannot']);
+      expect(facts(reasoner, 'hunting-possible-by')).to.have.members(['duck hunting-possible-by shooting', 'robbin hunting-possible-by shooting']);
+      expect(reasoner.runQueries()[0].bindings).to.have.deep.members([
+        {species: 'duck', mode: 'shooting'},
+        {species: 'robbin', mode: 'shooting'},
+      ]);
+    });
+  });
+
+  describe('assert', () => {
+    it('adds an axiom, from which the next run derives', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      reasoner.assert('penguin', 'is-a', 'bird');
+      reasoner.run();
+      expect(facts(reasoner, 'hunting-possible-by')).to.include('penguin hunting-possible-by shooting');
+    });
+
+    it('returns a WME that is there already, without justifying it again', () => {
+      const {reasoner} = loaded(birds);
+      const wme = reasoner.assert('duck', 'is-a', 'bird');
+      expect(reasoner.justifications.find(j => j.wme === wme)!.justifications).to.deep.equal([{axiomatic: true}]);
+    });
+  });
+
+  describe('retract', () => {
+    it('removes an axiom and what is derived from it', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      expect(reasoner.retract('duck', 'is-a', 'bird')).to.equal(true);
+      reasoner.run();
+      expect(facts(reasoner)).to.not.include('duck is-a bird');
+      expect(facts(reasoner, 'fly')).to.have.members(['robbin fly can', 'dodo fly cannot']);
+      expect(facts(reasoner, 'hunting-possible-by')).to.have.members(['robbin hunting-possible-by shooting']);
+    });
+
+    it('lets a negated condition match again', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      reasoner.retract('dodo', 'fly', 'cannot');
+      reasoner.run();
+      expect(facts(reasoner, 'fly')).to.include('dodo fly can');
+    });
+
+    it('warns about WMEs that are not there', () => {
+      const {reasoner, messages} = loaded(birds);
+      expect(reasoner.retract('penguin', 'is-a', 'bird')).to.equal(false);
+      expect(messages.warn).to.have.length(1);
+    });
+
+    it('removes WMEs whose justifications only support each other', () => {
+      const {reasoner} = loaded(`${transitiveClosure}
+        (! (in_ transitive-closure-of in) (a in b) (b in a) (b in c))
+      `);
+      reasoner.run();
+      expect(facts(reasoner, 'in_')).to.have.members(['a in_ b', 'b in_ a', 'b in_ c', 'a in_ c', 'a in_ a', 'b in_ b']);
+      // (b in_ c) and (a in_ c) justify each other, through (b in a) and (a in b)
+      expect(reasoner.explain('b', 'in_', 'c')).to.contain('(*)');
+      reasoner.retract('b', 'in', 'c');
+      reasoner.run();
+      expect(facts(reasoner, 'in_')).to.have.members(['a in_ b', 'b in_ a', 'a in_ a', 'b in_ b']);
+    });
+  });
+
+  describe('oscillation', () => {
+    it('is detected on test2-fail.rete, with a hint at the negated condition', async () => {
+      const {reasoner, messages} = loaded(await readFile('test2-fail.rete', 'utf8'));
+      const {converged, oscillation} = reasoner.run();
+      expect(converged).to.equal(false);
+      expect(oscillation!.firings.map(f => f.productionSpec.production.rhs)).to.include('Default values');
+      expect(oscillation!.hints).to.have.length.above(0);
+      expect(oscillation!.hints[0]).to.contain('of "Default values" is invalidated by').and.contain('asserted by its own RHS');
+      expect(messages.warn[0]).to.contain('Oscillation detected');
+    });
+
+    it('does not happen when the default is split into strata, as in test2.rete', async () => {
+      const {reasoner} = loaded(await readFile('test2.rete', 'utf8'), {strategy: 'stratifiedManual'});
+      expect(reasoner.run().converged).to.equal(true);
+      expect(facts(reasoner, 'fly')).to.have.members(['duck fly can', 'robbin fly can', 'dodo fly cannot']);
+    });
+  });
+
+  describe('query', () => {
+    it('answers queries without recording them', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      const [result] = reasoner.query('((<species> fly can) -> <species>)');
+      expect(result.text).to.equal('((<species> fly can) -> <species>)');
+      expect(result.bindings.map(b => b.species)).to.have.members(['duck', 'robbin']);
+      expect(reasoner.queries).to.have.length(1);
+    });
+
+    it('throws on parse errors', () => {
+      expect(() => new Reasoner().query('((<species> fly can) ->')).to.throw();
+    });
+  });
+
+  describe('explain', () => {
+    it('shows the justifications of a WME as a tree', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      const explanation = reasoner.explain('duck', 'hunting-possible-by', 'shooting')!;
+      expect(explanation).to.contain('[Hunting by shooting]').and.contain('[Flying birds]').and.contain('[Axiomatic]');
+      expect(explanation.indexOf('[Hunting by shooting]')).to.be.below(explanation.indexOf('[Flying birds]'));
+    });
+
+    it('returns undefined for WMEs that are not there', () => {
+      const {reasoner} = loaded(birds);
+      expect(reasoner.explain('penguin', 'fly', 'can')).to.equal(undefined);
+    });
+  });
+
+  describe('justificationGraph', () => {
+    const nodesAndEdges = ({nodes, edges}: JustificationGraph) => ({
+      nodes: nodes.map(({id, kind, label}) => `${id} ${kind} ${label}`),
+      edges: edges.map(({from, to}) => `${from} -> ${to}`),
+    });
+
+    it('links a WME to what supports it, down to the axioms', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      const graph = reasoner.justificationGraph(reasoner.rete.findWME('duck', 'hunting-possible-by', 'shooting')!);
+      expect(nodesAndEdges(graph)).to.deep.equal({
+        nodes: [
+          'w0 wme (duck hunting-possible-by shooting)',
+          'j0 production Hunting by shooting',
+          'w1 wme (duck fly can)',
+          'j1 production Flying birds',
+          'w2 wme (duck is-a bird)',
+          'j2 axiomatic Axiomatic',
+        ],
+        edges: ['j0 -> w0', 'j1 -> w1', 'j2 -> w2', 'w2 -> j1', 'w1 -> j0'],
+      });
+    });
+
+    it('covers the whole working memory without a WME, each WME once', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      const {nodes} = reasoner.justificationGraph();
+      const wmeLabels = nodes.filter(n => n.kind === 'wme').map(n => n.label);
+      expect(wmeLabels).to.have.members(reasoner.rete.working_memory.map(w => w.toString()));
+      expect(new Set(wmeLabels).size).to.equal(wmeLabels.length);
+      expect(nodes.filter(n => n.kind === 'axiomatic')).to.have.length(4);
+    });
+  });
+
+  describe('whyNot', () => {
+    it('shows how far the conditions of the productions that could assert a WME match', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      const lines = reasoner.whyNot('dodo', 'fly', 'can').split('\n');
+      expect(lines[0]).to.equal('(dodo fly can) is not in the working memory');
+      expect(lines[1]).to.match(/^\[Flying birds\] could assert it through .* with <species>=dodo$/);
+      expect(lines[2]).to.match(/^ ├.* matched$/);
+      expect(lines[3]).to.match(/^ └.* failed: negated condition blocked by \(dodo fly cannot\)$/);
+      expect(lines[4]).to.equal('  Deepest partial match: 1 of 2 conditions with <species>=dodo');
+    });
+
+    it('tells which condition has no match', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      const explanation = reasoner.whyNot('dodo', 'hunting-possible-by', 'shooting');
+      expect(explanation).to.contain('[Hunting by shooting] could assert it');
+      expect(explanation).to.match(/ └.* failed: no match\n/);
+      expect(explanation).to.contain('  Deepest partial match: 0 of 1 conditions\n');
+    });
+
+    it('tells when a production asserted the WME, which was retracted since', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      reasoner.retract('duck', 'is-a', 'bird');
+      reasoner.run();
+      expect(reasoner.whyNot('duck', 'fly', 'can')).to.contain('  It fired and asserted (duck fly can), which was later retracted\n');
+    });
+
+    it('tells when no production asserts a matching WME, or the WME is there', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      expect(reasoner.whyNot('duck', 'eats', 'fish')).to.equal('(duck eats fish) is not in the working memory\nNo production asserts a matching WME\n');
+      expect(reasoner.whyNot('duck', 'fly', 'can')).to.equal('(duck fly can) is in the working memory, use "explain" to see why\n');
+    });
+  });
+
+  describe('showKnowledgeBase', () => {
+    it('logs the WMEs with their justifications through the reporter', () => {
+      const {reasoner, messages} = loaded(birds);
+      reasoner.showKnowledgeBase();
+      expect(messages.log[0]).to.equal('The working memory consists of 4 WMEs');
+      expect(messages.log.slice(1)).to.have.length(4).and.to.satisfy((ls: string[]) => ls.every(l => l.endsWith(': [Axiomatic]')));
+    });
+  });
+
+  describe('serialize and deserialize', () => {
+    it('restore the knowledge base, which goes on as the original would', () => {
+      const {reasoner} = loaded(birds);
+      reasoner.run();
+      const copy = new Reasoner({reporter: recordingReporter().reporter});
+      copy.deserialize(JSON.parse(JSON.stringify(reasoner.serialize())));
+      expect(facts(copy)).to.have.members(facts(reasoner));
+      expect(copy.productions.map(p => p.production.rhs)).to.deep.equal(['Flying birds', 'Hunting by shooting']);
+      expect(copy.runQueries()).to.have.length(1);
+      expect(copy.runQueries()[0].text).to.equal(reasoner.queries[0].text);
+      expect(copy.explain('duck', 'hunting-possible-by', 'shooting')).to.equal(reasoner.explain('duck', 'hunting-possible-by', 'shooting'));
+
+      for (const r of [reasoner, copy]) {
+        r.retract('duck', 'is-a', 'bird');
+        r.assert('penguin', 'is-a', 'bird');
+        r.run();
+      }
+      expect(facts(copy)).to.have.members(facts(reasoner));
+    });
+
+    it('refuse sessions whose justifications are not in the network', () => {
+      const {reasoner} = loaded(birds);
+      const session = reasoner.serialize();
+      session.justifications.push({wme: '(penguin is-a bird)', justifications: [{kind: 'axiomatic'}]});
+      expect(() => new Reasoner().deserialize(session)).to.throw('Inconsistent session');
+    });
+
+    it('keep the schema check options of the Reasoner restoring the session', () => {
+      const {reasoner} = loaded(birds);
+      const copy = new Reasoner({schemaCheck: true, reporter: recordingReporter().reporter});
+      copy.deserialize(reasoner.serialize());
+      expect(copy.schemaCheck).to.equal(true);
+    });
+  });
+
+  describe('reconcile', () => {
+    /**
+     * A session of birds.rete, in which an axiom was asserted, another retracted, and a production added.
+     */
+    const session = () => {
+      const reasoner = new Reasoner({reporter: recordingReporter().reporter});
+      reasoner.loadSource(birds);
+      reasoner.run();
+      reasoner.assert('penguin', 'is-a', 'bird');
+      reasoner.retract('robbin', 'is-a', 'bird');
+      reasoner.load('((<x> hunting-possible-by shooting) -> "Game" (! (<x> is-a game)))');
+      reasoner.run();
+      return reasoner.serialize();
+    };
+    const reconciled = (input: string) => {
+      const {reporter, messages} = recordingReporter();
+      const reasoner = new Reasoner({reporter});
+      const reconciliation = reasoner.reconcile(session(), input);
+      reasoner.run();
+      return {reasoner, reconciliation, messages};
+    };
+
+    it('restores the session as it is when the source has not changed', () => {
+      const {reasoner, reconciliation} = reconciled(birds);
+      expect(reconciliation).to.equal(undefined);
+      expect(facts(reasoner, 'is-a')).to.have.members(['duck is-a bird', 'dodo is-a bird', 'penguin is-a bird', 'duck is-a game', 'penguin is-a game']);
+    });
+
+    it('loads the changed source, keeping the asserts, retractions and productions of the session', () => {
+      const changed = birds.replace('(dodo fly cannot)', '(dodo fly cannot)\n    (ostrich is-a bird)')
+        + '((<species> is-a bird) -> "Feathered" (! (<species> has feathers)))\n';
+      const {reasoner, reconciliation} = reconciled(changed);
+      expect(reconciliation).to.deep.equal({
+        productionsAdded: ['Feathered'],
+        productionsRemoved: [],
+        productionsKept: ['Game'],
+        directivesChanged: [],
+        assertsKept: ['(penguin is-a bird)'],
+        retractionsKept: ['(robbin is-a bird)'],
+      });
+      expect(reasoner.productions.map(p => p.production.rhs)).to.deep.equal(['Flying birds', 'Hunting by shooting', 'Feathered', 'Game']);
+      expect(facts(reasoner, 'is-a')).to.have.members([
+        'duck is-a bird', 'dodo is-a bird', 'ostrich is-a bird', 'penguin is-a bird', 'duck is-a game', 'ostrich is-a game', 'penguin is-a game',
+      ]);
+      expect(facts(reasoner, 'has')).to.have.members(['duck has feathers', 'dodo has feathers', 'ostrich has feathers', 'penguin has feathers']);
+    });
+
+    it('reports the productions removed from the source and the directives changed in it', () => {
+      const changed = birds.replace('(   (<species> is-a bird)', '#salience 3\n(   (<species> is-a bird)')
+        .replace(/\(   \(<species> fly can\)[^]*?\n\)\n/, '');
+      const {reasoner, reconciliation} = reconciled(changed);
+      expect(reconciliation!.productionsRemoved).to.deep.equal(['Hunting by shooting']);
+      expect(reconciliation!.directivesChanged).to.deep.equal(['#salience']);
+      expect(reasoner.productions.map(p => p.production.rhs)).to.deep.equal(['Flying birds', 'Game']);
+      expect(facts(reasoner, 'hunting-possible-by')).to.deep.equal([]);
+    });
+  });
+});
+
@@ -0,0 +1,145 @@
+import {expect} from 'chai';
+import {
+  createSchemaDescription,
+  diffPatterns,
+  formatSchemaDirective,
+  formatSlotType,
+  parseSlotType,
+  PatternsForAttributes,
+  SlotType,
+} from '../src/schema';
+import {facts, loaded} from './helpers';
+
+const people = `
+#schema _ is-a _
+#schema _ age :number[0,150] "Age in years"
+#schema :ref(person) owns _
+#schema _ color :enum(red|green)
+#schema _ name! :string
+(! (bob is-a person))
+`;
+
+const strictlyChecked = () => loaded(people, {strictSchemaCheck: true});
+
+describe('slot types', () => {
+  it('are parsed and formatted as in #schema', () => {
+    const slotTypes: [string, SlotType][] = [
+      [':number', {type: 'number'}],
+      [':number[0,150]', {type: 'number', min: 0, max: 150}],
+      [':number[,150]', {type: 'number', min: undefined, max: 150}],
+      [':string', {type: 'string'}],
+      [':enum(red|green)', {type: 'enum', values: ['red', 'green']}],
+      [':ref(person)', {type: 'ref', class: 'person'}],
+    ];
+    for (const [spec, slotType] of slotTypes) {
+      expect(parseSlotType(spec), spec).to.deep.equal(slotType);
+      expect(formatSlotType(slotType)).to.equal(spec);
+    }
+  });
+
+  it('are refused when malformed', () => {
+    expect(parseSlotType(':number[low,150]')).to.equal('Malformed range in :number[low,150]');
+    expect(parseSlotType(':date')).to.equal('Unknown slot type :date');
+  });
+
+  it('are kept in the patterns of their attributes, and written back into #schema directives', () => {
+    const {reasoner} = strictlyChecked();
+    expect(reasoner.patternsForAttributes.age).to.deep.equal([
+      {id: undefined, val: undefined, description: '"Age in years"', valType: {type: 'number', min: 0, max: 150}},
+    ]);
+    expect(reasoner.patternsForAttributes.name[0].functional).to.equal(true);
+    expect(formatSchemaDirective('age', reasoner.patternsForAttributes.age[0])).to.equal('#schema _ age :number[0,150] "Age in years"');
+    expect(formatSchemaDirective('name', reasoner.patternsForAttributes.name[0])).to.equal('#schema _ name! :string');
+  });
+
+  it('are described for the chatbot', () => {
+    const {reasoner} = strictlyChecked();
+    const description = createSchemaDescription(reasoner.patternsForAttributes);
+    expect(description).to.contain('The object must be a number from 0 to 150.');
+    expect(description).to.contain('The subject must be an id that is-a person.');
+    expect(description).to.contain('Each subject has at most one value for it.');
+  });
+
+  describe('in the strict schema check', () => {
+    it('accept the values they allow', () => {
+      const {reasoner, messages} = strictlyChecked();
+      reasoner.assert('bob', 'age', '30');
+      reasoner.assert('bob', 'owns', 'car1');
+      reasoner.assert('car1', 'color', 'red');
+      reasoner.assert('bob', 'name', 'Bob');
+      expect(messages.error).to.deep.equal([]);
+      expect(facts(reasoner)).to.have.members(['bob is-a person', 'bob age 30', 'bob owns car1', 'car1 color red', 'bob name Bob']);
+    });
+
+    it('refuse the values they do not allow', () => {
+      const {reasoner} = strictlyChecked();
+      expect(() => reasoner.assert('bob', 'age', '200')).to.throw('Refused non-conforming WME');
+      expect(() => reasoner.assert('bob', 'age', 'old')).to.throw('Refused non-conforming WME');
+      expect(() => reasoner.assert('rex', 'owns', 'bone')).to.throw('Refused non-conforming WME');
+      expect(() => reasoner.assert('car1', 'color', 'blue')).to.throw('Refused non-conforming WME');
+      expect(() => reasoner.assert('bob', 'name', '42')).to.throw('Refused non-conforming WME');
+      expect(reasoner.schemaViolations).to.equal(5);
+      expect(facts(reasoner)).to.deep.equal(['bob is-a person']);
+    });
+
+    it('refuse a second value of a functional attribute', () => {
+      const {reasoner, messages} = strictlyChecked();
+      reasoner.assert('bob', 'name', 'Bob');
+      expect(() => reasoner.assert('bob', 'name', 'Robert')).to.throw('Refused non-conforming WME');
+      expect(messages.error[0]).to.equal('Functional attribute name has more than one value for bob: Bob, Robert');
+    });
+
+    it('stay strict when the option asks for it, whatever the #schemacheck directives say', () => {
+      const {reasoner} = strictlyChecked();
+      reasoner.load('#schemacheck on');
+      expect(reasoner.strictSchemaCheck).to.equal(true);
+      reasoner.load('#schemacheck off');
+      expect(reasoner.schemaCheck).to.equal(true);
+      expect(() => reasoner.assert('bob', 'age', 'old')).to.throw('Refused non-conforming WME');
+    });
+
+    it('refuse productions whose conditions have constants the slot types do not allow', () => {
+      const {reasoner, messages} = strictlyChecked();
+      reasoner.load('((<x> color purple) -> "Purple" (! (<x> age 20)))');
+      expect(reasoner.productions).to.deep.equal([]);
+      expect(messages.error).to.include('Refused non-conforming production "Purple"');
+    });
+  });
+});
+
+describe('inferred schemas', () => {
+  const zoo = `
+#schema _ is-a _
+(! (duck is-a bird) (duck weight 3) (dodo weight 15) (duck fly can) (dodo fly cannot))
+((<x> fly can) -> "Flyers" (! (<x> flies yes)))
+`;
+  const directives = (patternsForAttributes: PatternsForAttributes) => Object.entries(patternsForAttributes)
+    .flatMap(([attr, patterns]) => patterns.map(p => formatSchemaDirective(attr, p)));
+
+  it('enumerate the few values of an attribute, from the facts and the productions', () => {
+    const {reasoner} = loaded(zoo);
+    expect(directives(reasoner.inferSchema())).to.deep.equal([
+      '#schema _ flies yes "TODO: what _ flies _ means"',
+      '#schema _ fly can "TODO: what _ fly _ means"',
+      '#schema _ fly cannot "TODO: what _ fly _ means"',
+      '#schema _ is-a bird "TODO: what _ is-a _ means"',
+      '#schema _ weight :number "TODO: what _ weight _ means"',
+    ]);
+  });
+
+  it('leave the values of an attribute open when there are more than asked for', () => {
+    const {reasoner} = loaded(zoo);
+    expect(directives(reasoner.inferSchema(1))).to.include('#schema _ fly _ "TODO: what _ fly _ means"');
+  });
+
+  it('are compared to the existing schema by their patterns, whatever their descriptions', () => {
+    const {reasoner} = loaded(zoo);
+    const inferred = reasoner.inferSchema();
+    expect(diffPatterns(reasoner.patternsForAttributes, inferred)).to.deep.equal({
+      added: directives(inferred),
+      removed: ['#schema _ is-a _'],
+    });
+    const described: PatternsForAttributes = {'is-a': [{id: undefined, val: undefined, description: '"Its class"'}]};
+    expect(diffPatterns(reasoner.patternsForAttributes, described)).to.deep.equal({added: [], removed: []});
+  });
+});
@@ -0,0 +1,103 @@
+import {expect} from 'chai';
+import {request as httpRequest, Server} from 'http';
+import {AddressInfo} from 'net';
+import {Reasoner} from '../src/reasoner';
+import {RequestReporter, serve} from '../src/server';
+import {recordingReporter} from './helpers';
+
+const birds = `
+(! (duck is-a bird) (dodo is-a bird) (dodo fly cannot))
+((<x> is-a bird) -{(<x> fly cannot)} -> "Flying birds" (! (<x> fly can)))
+`;
+
+describe('serve', () => {
+  let server: Server;
+  let base: string;
+  let saves: number;
+
+  beforeEach(async () => {
+    const reporter = new RequestReporter(recordingReporter().reporter);
+    const reasoner = new Reasoner({reporter});
+    reasoner.load(birds);
+    reasoner.run();
+    saves = 0;
+    const save = async () => {
+      if (saves++ === 0) {
+        throw new Error('Disk full');
+      }
+      return 'kb.session';
+    };
+    server = await serve(reasoner, {port: 0, save, reporter});
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(done => {
+    server.closeAllConnections();
+    server.close(() => done());
+  });
+
+  const post = async (path: string, body: unknown) => {
+    const response = await fetch(`${base}${path}`, {method: 'POST', body: JSON.stringify(body)});
+    return {status: response.status, body: await response.json()};
+  };
+
+  const get = async (path: string) => {
+    const response = await fetch(`${base}${path}`);
+    return {status: response.status, body: await response.json()};
+  };
+
+  it('asserts clauses and runs to the new stable state', async () => {
+    const {status, body} = await post('/assert', {clauses: '(! (robbin is-a bird))'});
+    expect(status).to.equal(200);
+    expect(body).to.include({changed: true, converged: true});
+    const {body: {wmes}} = await get('/wm');
+    expect(wmes.map((w: {wme: string}) => w.wme)).to.include('(robbin fly can)');
+  });
+
+  it('retracts WMEs, with status 404 for those that are not there', async () => {
+    expect((await post('/retract', {wme: '(dodo fly cannot)'})).body).to.deep.equal({retracted: true, converged: true});
+    expect((await get('/explain?wme=(dodo fly can)')).status).to.equal(200);
+    expect((await post('/retract', {wme: 'penguin is-a bird'})).status).to.equal(404);
+  });
+
+  it('answers queries and explains WMEs', async () => {
+    const {body: {results}} = await post('/query', {query: '((<x> fly can) -> <x>)'});
+    expect(results[0].bindings).to.deep.equal([{x: 'duck'}]);
+    const {body} = await get('/explain?wme=(duck fly can)');
+    expect(body.wme).to.equal('(duck fly can)');
+    expect(body.explanation).to.contain('[Flying birds]');
+  });
+
+  it('replies the warnings of a request in its messages', async () => {
+    const {body} = await post('/assert', {clauses: '#salience high'});
+    expect(body.messages).to.deep.equal(['Malformed directive #salience high']);
+    expect((await get('/wm')).body).to.not.have.property('messages');
+  });
+
+  it('replies errors with their status', async () => {
+    expect((await get('/nowhere')).status).to.equal(404);
+    expect((await get('/assert')).status).to.equal(405);
+    expect((await post('/query', {})).status).to.equal(400);
+    const response = await fetch(`${base}/query`, {method: 'POST', body: '{'});
+    expect(response.status).to.equal(400);
+    const {status, body} = await post('/assert', {clauses: '#include /etc/passwd'});
+    expect(status).to.equal(400);
+    expect(body.error).to.contain('reads a file');
+  });
+
+  it('goes on answering after an endpoint fails', async () => {
+    expect(await post('/save', {})).to.deep.equal({status: 400, body: {error: 'Disk full'}});
+    expect(await post('/save', {})).to.deep.equal({status: 200, body: {saved: 'kb.session'}});
+  });
+
+  it('answers other clients while one is slow to send its body', async () => {
+    const stalled = httpRequest(`${base}/assert`, {method: 'POST', headers: {'Content-Length': '100'}});
+    stalled.on('error', () => undefined);
+    stalled.write('{"clauses": ');
+    try {
+      expect((await get('/wm')).status).to.equal(200);
+    } finally {
+      stalled.destroy();
+    }
+  });
+});
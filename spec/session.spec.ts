@@ -0,0 +1,147 @@
+import {expect} from 'chai';
+import {mkdtemp, readdir, readFile, rm, writeFile} from 'fs/promises';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {
+  checkedSession,
+  migrateSession,
+  readSessionFile,
+  sessionFormatVersion,
+  validateSession,
+  writeSessionFile,
+} from '../src/session';
+
+/**
+ * A session of version 1, as saved before the format had a version, with a fuzzy system saved by its name.
+ */
+function sessionOfVersion1() {
+  return {
+    network: {},
+    justifications: [{wme: '(duck fly can)', justifications: [{kind: 'axiomatic'}]}],
+    rhsAsserts: [null],
+    productionNames: ['Default values'],
+    strata: [[0]],
+    queries: [],
+    patternsForAttributes: {},
+    schemaCheck: false,
+    fuzzyVariableKinds: [],
+    fuzzyVariableRegistrations: [],
+    fuzzySystem: 'min-max',
+    nonDeterministicFixpointPossible: false,
+  };
+}
+
+describe('migrateSession', () => {
+  it('brings a session of version 1 to the current version', () => {
+    const migrated = migrateSession(sessionOfVersion1()) as {[key: string]: unknown};
+    expect(migrated.version).to.equal(sessionFormatVersion);
+    expect(migrated.fuzzySystem).to.deep.equal({name: 'min-max', parameters: []});
+  });
+
+  it('leaves a session of the current version as it is', () => {
+    const session = migrateSession(sessionOfVersion1());
+    expect(migrateSession(session)).to.deep.equal(session);
+  });
+
+  it('throws on sessions of a later version and on versions that are not versions', () => {
+    expect(() => migrateSession({...sessionOfVersion1(), version: sessionFormatVersion + 1})).to.throw('is newer than the supported version');
+    expect(() => migrateSession({...sessionOfVersion1(), version: '2'})).to.throw('Session format version "2" is not a version');
+  });
+});
+
+describe('validateSession', () => {
+  it('accepts a well-formed session', () => {
+    expect(validateSession(migrateSession(sessionOfVersion1()))).to.deep.equal([]);
+  });
+
+  it('reports what is not an object', () => {
+    expect(validateSession([])).to.deep.equal(['Session is not an object']);
+    expect(validateSession(null)).to.deep.equal(['Session is not an object']);
+  });
+
+  it('reports missing parts and parts of the wrong type', () => {
+    expect(validateSession({...sessionOfVersion1(), network: undefined, schemaCheck: 'yes'})).to.deep.equal([
+      'network should be an object, but is missing',
+      'schemaCheck should be a boolean, but is string',
+    ]);
+  });
+
+  it('reports parallel arrays, strata and justifications that do not fit the productions', () => {
+    expect(validateSession({
+      ...sessionOfVersion1(),
+      productionNames: ['Default values', 'Hunting'],
+      saliences: 0,
+      strata: [[0, 1], 'all'],
+      justifications: [{wme: '(duck fly can)'}],
+    })).to.deep.equal([
+      'productionNames has 2 entries, but there are 1 productions',
+      'saliences should be an array',
+      'Stratum 0 refers to production 1, but there are 1 productions',
+      'Stratum 1 should be an array',
+      'Justification 0 should have a wme and an array of justifications',
+    ]);
+  });
+
+  it('reports justifications of unknown kinds, or without the WMEs of their kind', () => {
+    expect(validateSession({
+      ...migrateSession(sessionOfVersion1()) as object,
+      justifications: [{wme: '(duck fly can)', justifications: [
+        {kind: 'derived'},
+        {kind: 'prod', prod: 'Default values', tokenWmes: '(duck is-a bird)'},
+        {kind: 'wmes', wmes: [1]},
+        null,
+        {kind: 'prod', prod: 'Default values', tokenWmes: ['(duck is-a bird)']},
+        {kind: 'wmes', wmes: ['(duck speed fast)']},
+      ]}],
+    })).to.deep.equal([
+      'Justification 0 of WME (duck fly can) has unknown kind "derived"',
+      'Justification 1 of WME (duck fly can) should have a prod and an array of tokenWmes',
+      'Justification 2 of WME (duck fly can) should have an array of wmes',
+      'Justification 3 of WME (duck fly can) should be an object',
+    ]);
+  });
+});
+
+describe('checkedSession', () => {
+  it('throws with all the errors found', () => {
+    expect(() => checkedSession({...sessionOfVersion1(), strata: {}, queries: null}, 'Session kb.json'))
+      .to.throw('Session kb.json is invalid:\n  strata should be an array, but is object\n  queries should be an array, but is null');
+  });
+});
+
+describe('session files', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'rete-session-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, {recursive: true, force: true});
+  });
+
+  for (const compress of [false, true]) {
+    it(`are written ${compress ? 'compressed' : 'as JSON'} and read back, without a temporary file left behind`, async () => {
+      const path = join(directory, 'kb.json');
+      const session = checkedSession(sessionOfVersion1());
+      await writeSessionFile(path, session, compress);
+      expect(await readSessionFile(path)).to.deep.equal(session);
+      expect((await readFile(path))[0] === 0x1f).to.equal(compress);
+      expect(await readdir(directory)).to.deep.equal(['kb.json']);
+    });
+  }
+
+  it('are migrated when read', async () => {
+    const path = join(directory, 'kb.json');
+    await writeFile(path, JSON.stringify(sessionOfVersion1()));
+    expect((await readSessionFile(path)).version).to.equal(sessionFormatVersion);
+  });
+
+  it('are refused when they are not JSON', async () => {
+    const path = join(directory, 'kb.json');
+    await writeFile(path, '{"network":');
+    let error: Error | undefined;
+    await readSessionFile(path).catch(e => error = e);
+    expect(error?.message).to.contain(`Session ${path} is not valid JSON`);
+  });
+});
@@ -0,0 +1,115 @@
+import {expect} from 'chai';
+import {Reasoner} from '../src/reasoner';
+import {computeAutomaticStrata, findConflictResolutionStrategy} from '../src/strategies';
+import {facts, firings, loaded} from './helpers';
+
+const penguins = `
+(   (<x> is-a bird)
+    -{(<x> fly cannot)}
+-> "Flying birds"
+    (! (<x> fly can))
+)
+
+(   (<x> fly can)
+-> "Flyers"
+    (! (<x> flies yes))
+)
+
+(   (<x> is-a penguin)
+-> "Penguins"
+    (! (<x> is-a bird) (<x> fly cannot))
+)
+
+(! (tweety is-a bird) (pingu is-a penguin))
+`;
+
+const tracing = (input: string, strategy: string) => loaded(input, {strategy, trace: true});
+
+describe('conflict resolution strategies', () => {
+  it('are selected by the first name they match as a case-insensitive prefix', () => {
+    expect(findConflictResolutionStrategy('STRAT')?.name).to.equal('stratifiedManual');
+    expect(findConflictResolutionStrategy('stratifiedA')?.name).to.equal('stratifiedAutomatic');
+    expect(findConflictResolutionStrategy('Lex')?.name).to.equal('lex');
+    expect(findConflictResolutionStrategy('random')).to.equal(undefined);
+    expect(new Reasoner({strategy: 'mea'}).conflictResolutionStrategy.name).to.equal('mea');
+    expect(new Reasoner({strategy: 'random'}).conflictResolutionStrategy.name).to.equal('firstMatch');
+  });
+
+  describe('stratifiedAutomatic', () => {
+    it('puts the productions that negate what others assert in later strata', () => {
+      const {reasoner} = tracing(penguins, 'stratifiedAutomatic');
+      expect(computeAutomaticStrata(reasoner).map(stratum => stratum.map(p => p.production.rhs))).to.deep.equal([
+        ['Penguins'],
+        ['Flying birds', 'Flyers'],
+      ]);
+    });
+
+    it('fires the earlier strata first', () => {
+      const {reasoner, messages} = tracing(penguins, 'stratifiedAutomatic');
+      expect(reasoner.run().converged).to.equal(true);
+      expect(firings(messages.log)[0]).to.equal('Penguins');
+      expect(facts(reasoner, 'flies')).to.deep.equal(['tweety flies yes']);
+    });
+
+    it('starts again from the first stratum on the next run', () => {
+      const {reasoner} = tracing(penguins, 'stratifiedAutomatic');
+      reasoner.run();
+      reasoner.assert('opus', 'is-a', 'penguin');
+      reasoner.assert('polly', 'is-a', 'bird');
+      expect(reasoner.run().converged).to.equal(true);
+      expect(facts(reasoner, 'fly')).to.have.members(['tweety fly can', 'pingu fly cannot', 'opus fly cannot', 'polly fly can']);
+      expect(facts(reasoner, 'flies')).to.have.members(['tweety flies yes', 'polly flies yes']);
+    });
+
+    it('reports cycles through negation as unstratifiable', () => {
+      const {reasoner, messages} = tracing('((<x> is-a bird) -{(<x> fly <_>)} -> "Default values" (! (<x> fly can)))', 'stratifiedAutomatic');
+      computeAutomaticStrata(reasoner);
+      expect(messages.warn).to.deep.equal([
+        'Unstratifiable: cycle through negation or aggregation among productions "Default values"',
+        '  "Default values" negates or aggregates what "Default values" asserts',
+      ]);
+    });
+  });
+
+  const ringing = `
+((<x> is-a bird) -> "Ring" (! (<x> ringed yes)))
+#salience 10
+((<x> is-a bird) -> "Weigh" (! (<x> weighed yes)))
+((<x> is-a bird) (<x> fly cannot) -> "Clip" (! (<x> clipped yes)))
+(! (dodo is-a bird) (dodo fly cannot))
+`;
+
+  describe('salience', () => {
+    it('fires the productions of the highest salience first', () => {
+      const {reasoner, messages} = tracing(ringing, 'salience');
+      reasoner.run();
+      expect(firings(messages.log)[0]).to.equal('Weigh');
+      expect(reasoner.serialize().saliences).to.deep.equal([0, 10, 0]);
+    });
+  });
+
+  describe('specificity', () => {
+    it('fires the productions with more conditions first, after salience', () => {
+      const {reasoner, messages} = tracing(ringing, 'specificity');
+      reasoner.run();
+      expect(firings(messages.log).slice(0, 2)).to.deep.equal(['Weigh', 'Clip']);
+    });
+  });
+
+  const recency = `
+((<x> is-a bird) -> "Birds" (! (<x> counted yes)))
+((<x> is-a fish) -> "Fish" (! (<x> counted yes)))
+(! (duck is-a bird))
+(! (trout is-a fish))
+`;
+
+  for (const strategy of ['lex', 'mea']) {
+    describe(strategy, () => {
+      it('fires the productions matching the most recent WMEs first', () => {
+        const {reasoner, messages} = tracing(recency, strategy);
+        reasoner.run();
+        expect(firings(messages.log)).to.deep.equal(['Fish', 'Birds']);
+      });
+    });
+  }
+});
@@ -0,0 +1,222 @@
+import {confirm} from '@inquirer/prompts';
+import {OpenAI} from 'openai';
+import {
+  ChatCompletionAssistantMessageParam,
+  ChatCompletionMessageParam,
+  ChatCompletionUserMessageParam
+} from "openai/resources";
+import {OutputFormat, printQueryResults} from './output';
+import {Reasoner} from './reasoner';
+import {createSchemaDescription} from './schema';
+
+const openaiapikeyExists = !!process.env.OPENAI_API_KEY;
+
+interface OpenAiState {
+  contextLength: number,
+  history: HistoryItem[];
+}
+
+let openai: OpenAI;
+export const openAiState: OpenAiState = {
+  contextLength: 0,
+  history: [],
+}
+
+interface HistoryItem {
+  prompt: ChatCompletionUserMessageParam,
+  promptTokens: number,
+  response: ChatCompletionAssistantMessageParam,
+  responseTokens: number,
+}
+
+const CONTEXT_TOKENS = 200; //a lot less than the allowed total number of tokens
+
+function createContextOfLength(n: number): ChatCompletionMessageParam[] {
+  n --;
+  let remainingTokens = CONTEXT_TOKENS;
+  const messages: ChatCompletionMessageParam[] = [];
+  for (let i = 0; i < openAiState.history.length; i++){
+    if(i > n) break;
+    const historyItem = openAiState.history[i];
+    if(historyItem.responseTokens > remainingTokens) break;
+    messages.push({
+      role: 'assistant',
+      content: historyItem.response.content,
+    } as ChatCompletionAssistantMessageParam);
+    remainingTokens -= historyItem.responseTokens;
+
+    if(historyItem.promptTokens > remainingTokens) break;
+    messages.push({
+      role: 'user',
+      content: historyItem.prompt.content,
+    } as ChatCompletionUserMessageParam);
+    remainingTokens -= historyItem.promptTokens;
+  }
+
+  return messages;
+}
+
+async function getOpenAiResponse(system: string, user: string, contextLength = 0) {
+  let messages: ChatCompletionMessageParam[] = [{
+    role: 'system',
+    content: system,
+  }];
+  let contextOfLength = createContextOfLength(contextLength);
+  // console.log(`Context of length ${contextLength}`, contextOfLength);
+  if(contextOfLength.length) {
+    messages = [...messages, ...contextOfLength];
+  }
+  let userMessage: ChatCompletionUserMessageParam = {
+    role: 'user',
+    content: user
+  };
+  messages.push(userMessage);
+  // console.log('Messages', messages);
+  const response = await openai.chat.completions.create({
+    model: 'gpt-4o-mini',
+    messages,
+  });
+  openAiState.history.push({
+    prompt: userMessage,
+    promptTokens: response.usage?.prompt_tokens || 0,
+    response: response.choices[0].message,
+    responseTokens: response.usage?.completion_tokens || 0,
+  });
+  return response.choices[0].message;
+}
+
+function createSystemPrompt(schemaDescription: string) {
+  return `Please use the following triplet notation for Datalog queries:
+
+- **Triplet Structure:** Represent relationships as triplets within parentheses, without commas. Each triplet follows the format: \`(subject predicate object)\`.
+  
+- **Variables:** Enclose all variables within angle brackets \`< >\`. Examples of variables include \`<m>\`, \`<f>\`, \`<c>\`, \`<c2>\`, etc.
+  
+- **Constants:** Write constants (specific entities or known values) without angle brackets. For example, \`Esau\`.
+  
+- **No Commas in Triplets:** Do not use commas inside the triplets. The components are separated by spaces only.
+  
+- **Query Formation:** Combine multiple triplets to set conditions or express relationships. Use \`->\` to denote the result or output of the query.
+  
+- **Output Variables:** After the \`->\`, list the variables to output, separated by commas without additional parentheses or angle brackets. If there are no variables, i.e. it is a yes/no question, just finish with the arrow (\`->\`).
+
+**Examples for sample predicates \`mother\`, \`father\`:**
+
+1. **Identifying Husband and Wife:**
+
+   \`\`\`
+   (<m> mother <c>) (<f> father <c>) -> <m>,<f>
+   \`\`\`
+   
+   - **Explanation:** Finds \`<m>\` and \`<f>\` who are the mother and father of the same child \`<c>\`, indicating they are husband and wife.
+
+2. **Finding the Mother of Esau:**
+
+   \`\`\`
+   (<m> mother Esau) -> <m>
+   \`\`\`
+   
+   - **Explanation:** Retrieves \`<m>\`, the mother of Esau.
+
+3. **Identifying Siblings:**
+
+   \`\`\`
+   (<m> mother <c>) (<f> father_o <c>) (<m> mother <c2>) (<f> father <c2>) -> <c>,<c2>
+   \`\`\`
+   
+   - **Explanation:** Finds \`<c>\` and \`<c2>\` who are siblings, sharing the same mother \`<m>\` and father \`<f>\`.
+
+**Guidelines:**
+
+- When constructing or interpreting Datalog queries, always adhere to this notation.
+- Ensure clarity by maintaining consistent use of variables and constants.
+- Use this format to express complex queries by combining multiple triplets and specifying the desired output.
+-------------------------------------------------------------------------------
+**Schema of the Knowledge Base**
+
+The following predicates are available:
+
+${schemaDescription}
+---
+
+**Additional Guidance**
+
+When constructing queries:
+
+- **Ensure Constraints are Met**: Always use the allowed values for predicate objects when constraints are specified.
+- **Use Consistent Naming**: Be consistent with variable names to avoid confusion.
+- **Check Validity**: Verify that each triplet adheres to the schema to prevent errors.
+
+**Benefits of Including the Schema**
+
+- **Clarity**: Users clearly understand how to use each predicate and what values are permissible.
+- **Error Reduction**: Minimizes the risk of constructing invalid queries that the system cannot process.
+- **Ease of Use**: Users can reference the schema as a guide while formulating their queries.
+-----------------------------------------------------------------------------------------------------
+If you understand what the user wants, respond with the query inside triple quotes. If you don't, ask for clarifications.
+`;
+}
+
+function queryExtractor(s: string): string | null {
+  let lines= s.split('\n');
+  let query = null;
+  let parsing = false;
+  for (const line of lines) {
+    const trimmedLine = line.trim();
+    if(!parsing && trimmedLine.startsWith('```')) {
+      query = '';
+      parsing = true;
+    } else if(parsing) {
+      if(trimmedLine.startsWith('```')) {
+        parsing = false;
+      } else {
+        query += line + '\n';
+      }
+    }
+  }
+  query = query?.trim();
+  if (!query) {
+    return null;
+  } else {
+    if(query[query.length - 1] === ';') query = query.substring(0, query.length - 2);
+    return query;
+  }
+}
+
+function parseAndRunQuery(reasoner: Reasoner, input: string, format: OutputFormat) {
+  try {
+    printQueryResults(reasoner.query(input), true, format);
+  } catch (e) {
+    console.error((e as Error).message);
+  }
+}
+
+export function interactiveClear() {
+  openAiState.contextLength = 0;
+}
+
+export async function interactiveChat(reasoner: Reasoner, prompt: string, format: OutputFormat = 'text') {
+  if(!openaiapikeyExists) {
+    console.warn('OPENAI_API_KEY not found. OpenAI integration has been disabled');
+    return;
+  }
+  if (!openai) {
+    let b = await confirm({message: 'Do you want to start a chat session? This will incur costs against your OpenAI credits.'});
+    if(!b) {
+      return;
+    }
+    openai = new OpenAI();
+  }
+  const schemaDescription = createSchemaDescription(reasoner.patternsForAttributes);
+  // console.log(schemaDescription);
+  let response = await getOpenAiResponse(createSystemPrompt(schemaDescription), prompt, openAiState.contextLength);
+  reasoner.options.trace && console.log('Response', response.content);
+  let query = response.content && queryExtractor(response.content);
+  if (query) {
+    let b = await confirm({message: 'Run?'});
+    if (b) {
+      parseAndRunQuery(reasoner, '(' + query + ')', format);
+    }
+  }
+  openAiState.contextLength++;
+}
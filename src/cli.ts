@@ -0,0 +1,739 @@
+import {existsSync} from 'fs';
+import {readdir, readFile, stat, writeFile} from 'fs/promises';
+import {AddressInfo} from 'net';
+import {extname, parse as parsePath, join as joinPath} from 'path';
+import {input} from '@inquirer/prompts';
+import commandLineArgs, {CommandLineOptions, OptionDefinition} from 'command-line-args'
+import {interactiveChat, interactiveClear, openAiState} from './chat';
+import {exportSource} from './export';
+import {factFormats, formatFactImport, parseFactMapping} from './facts';
+import {formatJustificationGraph, GraphFormat, graphFormats} from './graph';
+import {formatLintIssue, lint} from './lint';
+import {startLanguageServer} from './lsp';
+import {OutputFormat, outputFormats, printQueryResults} from './output';
+import {exportWorkingMemory, provenances, RdfExportOptions, RdfFormat, rdfFormats, wmeSelections} from './rdf';
+import {Reasoner, ReasonerOptions} from './reasoner';
+import {Reconciliation, SerializedSession} from './types';
+import {diffPatterns, formatSchemaDirective} from './schema';
+import {RequestReporter, serve} from './server';
+import {conflictResolutionStrategies, findConflictResolutionStrategy, printStrata} from './strategies';
+
+interface Options extends CommandLineOptions{
+  file: string,
+  strategy: string,
+  schemaCheck: boolean,
+  strictSchema: boolean,
+  interactive: boolean,
+  trace: boolean,
+  reactive: boolean,
+  clean: boolean,
+  printStrata: boolean,
+  graph: string,
+  inferSchema: string | null | undefined,
+  check: boolean,
+  refuseStale: boolean,
+  gzip: boolean,
+  autosave: boolean,
+  export: string,
+  exportWm: string,
+  wmFormat: string,
+  wmSelect: string,
+  wmProvenance: string,
+  output: string,
+  serve: number | undefined,
+  host: string | undefined,
+  lsp: boolean,
+}
+
+const optionDefinitions: OptionDefinition[] = [
+  { name: 'file', alias: 'f', type: String, defaultOption: true},
+  { name: 'strategy', alias: 's', type: String},
+  { name: 'schema-check', alias: 'c', type: Boolean, defaultValue: false},
+  { name: 'strict-schema', alias: 'x', type: Boolean, defaultValue: false},
+  { name: 'interactive', alias: 'i', type: Boolean, defaultValue: false},
+  { name: 'trace', alias: 't', type: Boolean, defaultValue: false},
+  { name: 'reactive', alias: 'r', type: Boolean, defaultValue: false},
+  { name: 'clean', alias: 'l', type: Boolean, defaultValue: false},
+  { name: 'print-strata', alias: 'p', type: Boolean, defaultValue: false},
+  { name: 'graph', alias: 'g', type: String},
+  { name: 'infer-schema', alias: 'n', type: String},
+  { name: 'check', alias: 'k', type: Boolean, defaultValue: false},
+  { name: 'refuse-stale', alias: 'e', type: Boolean, defaultValue: false},
+  { name: 'gzip', alias: 'z', type: Boolean, defaultValue: false},
+  { name: 'autosave', alias: 'a', type: Boolean, defaultValue: false},
+  { name: 'export', alias: 'w', type: String},
+  { name: 'export-wm', alias: 'm', type: String},
+  { name: 'wm-format', type: String},
+  { name: 'wm-select', type: String},
+  { name: 'wm-provenance', type: String},
+  { name: 'output', alias: 'o', type: String},
+  { name: 'serve', alias: 'v', type: Number},
+  { name: 'host', type: String},
+  { name: 'lsp', type: Boolean, defaultValue: false},
+];
+
+const options = commandLineArgs(optionDefinitions, {camelCase: true}) as Options;
+
+if(options.lsp) {
+  startLanguageServer();
+  await new Promise(() => undefined); // the language server ends the process when the editor asks it to
+}
+
+if(!options.file) {
+  console.warn('Options');
+  console.warn('  -f, --file           File with Rete productions');
+  console.warn('  -s, --strategy       Conflict resolution strategy [optional]');
+  console.warn('  -c, --schema-check   Enable schema check before reading file [optional]');
+  console.warn('  -x, --strict-schema  Enable strict schema check, refusing what does not conform [optional]');
+  console.warn('  -i, --interactive    Launch interactive session after running [optional]');
+  console.warn('  -t, --trace          Enable tracing [optional]');
+  console.warn('  -r, --reactive       Reactive operation [optional]');
+  console.warn('  -l, --clean          Ignore any saved session and rebuild fresh from the productions file [optional]');
+  console.warn('  -p, --print-strata   Print the manual and the automatically computed strata [optional]');
+  console.warn('  -g, --graph          Write the justification graph to a .dot or .json file [optional]');
+  console.warn('  -n, --infer-schema [append]');
+  console.warn('                       Propose #schema directives, adding the new ones to the file before its first clause if asked [optional]');
+  console.warn('  -k, --check          Report problems in the file without running it, as file:line: severity: message [optional]');
+  console.warn('  -e, --refuse-stale   Refuse a saved session if the file has changed since, instead of merging the changes [optional]');
+  console.warn('  -z, --gzip           Compress the saved session with gzip [optional]');
+  console.warn('  -a, --autosave       Save the session after every interactive command [optional]');
+  console.warn('  -w, --export         Write the knowledge base back to a .rete file, at the end [optional]');
+  console.warn('  -m, --export-wm      Write the working memory as RDF, at the end [optional]');
+  console.warn('      --wm-format      turtle, ntriples or jsonld, by default from the extension of the file [optional]');
+  console.warn('      --wm-select      Only the axiomatic or only the derived facts [optional]');
+  console.warn('      --wm-provenance  The justifications of the facts, as RDF-star annotations or named graphs [optional]');
+  console.warn('  -o, --output         Format of query results: text, json, csv or table [optional]');
+  console.warn('  -v, --serve          Serve the knowledge base over HTTP on the port given, after running, until interrupted [optional]');
+  console.warn('      --host           Address to serve on, 127.0.0.1 by default so that only local clients are served [optional]');
+  console.warn('      --lsp            Serve the Language Server Protocol over stdio for editors, instead of reading a file [optional]');
+  process.exit();
+}
+
+if(options.serve !== undefined && (options.interactive || !Number.isInteger(options.serve))) {
+  console.error(options.interactive ? 'Options --serve and --interactive cannot be combined' : 'Option --serve needs a port');
+  process.exit(1);
+}
+
+let outputFormat: OutputFormat = 'text';
+if(options.output) {
+  const found = outputFormats.find(f => f === options.output);
+  if(found) {
+    outputFormat = found;
+  } else {
+    console.warn(`Unknown output format ${options.output}, expected one of ${outputFormats.join(', ')}, defaulting to: ${outputFormat}`);
+  }
+}
+// json and csv are meant for other programs to read, so nothing but the query results is written to the standard output
+const structuredOutput = outputFormat === 'json' || outputFormat === 'csv';
+const log = structuredOutput ? console.error : console.log;
+
+let strategyName = conflictResolutionStrategies[0].name;
+if(!options.strategy) {
+  console.warn(`No conflict resolution strategy specified, defaulting to: ${strategyName}`);
+} else {
+  const found = findConflictResolutionStrategy(options.strategy);
+  if(found) {
+    strategyName = found.name;
+    log(`Conflict resolution strategy specified: ${strategyName}`);
+  } else {
+    console.warn(`Conflict resolution strategy specified was not found, defaulting to: ${strategyName}`);
+  }
+}
+
+// when serving, the warnings and errors of each request are replied instead of printed
+const requestReporter = options.serve !== undefined ? new RequestReporter() : undefined;
+const reasonerOptions: ReasonerOptions = {
+  strategy: strategyName,
+  schemaCheck: options.schemaCheck,
+  strictSchemaCheck: options.strictSchema,
+  trace: options.trace,
+  reactive: options.reactive,
+  reporter: requestReporter,
+};
+let reasoner = new Reasoner(reasonerOptions); // replaced by "load" and "undo"
+
+const MAX_UNDO = 20;
+const undoJournal: string[] = []; // serialized sessions, from before each command that changed the knowledge base
+
+function interactiveHelp(prompt: string) {
+  const request = prompt.trim();
+
+  function showQuit() {
+    console.log(' quit, exit, bye               Exit');
+  }
+
+  function showRetract() {
+    console.log(' retract [str] [str] [str]     Retract axiomatic justification for WME ([str] [str] [str])');
+  }
+
+  function showExplain() {
+    console.log(' explain [--format dot|json] [str] [str] [str]');
+    console.log('                               Explain the justification for WME ([str] [str] [str])');
+  }
+
+  function showWhyNot() {
+    console.log(' whynot ([str] [str] [str])    Explain why WME ([str] [str] [str]) was not derived');
+  }
+
+  function showSchema() {
+    console.log(' schema infer [--append]       Propose #schema directives from the knowledge base, adding the new');
+    console.log('                               ones to the file before its first clause if asked');
+  }
+
+  function showRun() {
+    console.log(' run [clauses]                 Run the clauses provided');
+  }
+
+  function showSave() {
+    console.log(' save [name]                   Save a snapshot of the knowledge base under [name]');
+  }
+
+  function showLoad() {
+    console.log(' load [name]                   Replace the knowledge base with the snapshot saved under [name]');
+    console.log(' load csv|json|ntriples [file] [key=column] [columns=column,column...]');
+    console.log('                               Assert the facts of a data file, one for each column of a row');
+  }
+
+  function showSnapshots() {
+    console.log(' snapshots                     List the snapshots saved');
+  }
+
+  function showExport() {
+    console.log(' export [file]                 Write the knowledge base back to .rete source in [file]');
+  }
+
+  function showExportWM() {
+    console.log(' export-wm [--format turtle|ntriples|jsonld] [--select axiomatic|derived]');
+    console.log('           [--provenance annotation|graph] [file]');
+    console.log('                               Write the working memory as RDF in [file]');
+  }
+
+  function showUndo() {
+    console.log(' undo                          Revert the last retract, run or load');
+  }
+
+  function showHelp() {
+    console.log(' help [command]                Explain how [command] is used');
+  }
+
+  function showClear() {
+    console.log(' clear                         Reset the chat and start over');
+  }
+
+  function showChat() {
+    console.log(' [Prompt to chatbot]           Chat with ChatGPT');
+  }
+
+  if(!request) {
+    console.log('Commands');
+    showQuit();
+    showRetract();
+    showExplain();
+    showWhyNot();
+    showSchema();
+    showRun();
+    showSave();
+    showLoad();
+    showSnapshots();
+    showUndo();
+    showExport();
+    showExportWM();
+    showClear();
+    showChat();
+    return;
+  }
+  switch (request) {
+    case 'help': {
+      showHelp();
+      break;
+    }
+    case 'quit':
+    case 'exit':
+    case 'bye': {
+      showQuit();
+      break;
+    }
+    case 'retract': {
+      showRetract();
+      break;
+    }
+    case 'explain': {
+      showExplain();
+      break;
+    }
+    case 'whynot': {
+      showWhyNot();
+      break;
+    }
+    case 'schema': {
+      showSchema();
+      break;
+    }
+    case 'run': {
+      showRun();
+      break;
+    }
+    case 'save': {
+      showSave();
+      break;
+    }
+    case 'load': {
+      showLoad();
+      break;
+    }
+    case 'snapshots': {
+      showSnapshots();
+      break;
+    }
+    case 'undo': {
+      showUndo();
+      break;
+    }
+    case 'export-wm': {
+      showExportWM();
+      break;
+    }
+    case 'export': {
+      showExport();
+      break;
+    }
+    case 'clear': {
+      showClear();
+      break;
+    }
+    default: console.warn(`Unknown command ${prompt}`);
+  }
+}
+
+function runToStableState() {
+  if(!reasoner.run().converged) {
+    process.exitCode = 1;
+  }
+}
+
+function rememberForUndo(serializedSession: string) {
+  undoJournal.push(serializedSession);
+  undoJournal.length > MAX_UNDO && undoJournal.shift();
+}
+
+function interactiveRetract(prompt: string) {
+  const strings = prompt.trim().split(' ');
+  if(strings.length === 3) {
+    const before = JSON.stringify(reasoner.serialize());
+    if(reasoner.retract(strings[0], strings[1], strings[2])) {
+      rememberForUndo(before);
+      runToStableState();
+      reasoner.showKnowledgeBase();
+    }
+  } else {
+    console.error(`Malformed retract command ${prompt}`)
+  }
+}
+
+function interactiveExplain(prompt: string) {
+  let strings = prompt.trim().split(/\s+/);
+  let format: GraphFormat | undefined;
+  if(strings[0] === '--format') {
+    format = graphFormats.find(f => f === strings[1]);
+    if(!format) {
+      console.error(`Unknown format ${strings[1]}, expected one of ${graphFormats.join(', ')}`);
+      return;
+    }
+    strings = strings.slice(2);
+  }
+  if(strings.length === 3) {
+    const found = reasoner.rete.findWME(strings[0], strings[1], strings[2]);
+    if (!found) {
+      console.warn(`No WME found matching (${strings[0]} ${strings[1]} ${strings[2]} )`);
+    } else if (format) {
+      console.log(formatJustificationGraph(reasoner.justificationGraph(found), format));
+    } else {
+      console.log(found.toString());
+      console.log(reasoner.explain(strings[0], strings[1], strings[2]));
+    }
+  } else {
+    console.error(`Malformed explain command ${prompt}`)
+  }
+}
+
+function interactiveWhyNot(prompt: string) {
+  const strings = prompt.trim().replace(/^\(/, '').replace(/\)$/, '').trim().split(/\s+/);
+  if(strings.length === 3) {
+    console.log(reasoner.whyNot(strings[0], strings[1], strings[2]));
+  } else {
+    console.error(`Malformed whynot command ${prompt}`)
+  }
+}
+
+async function inferSchema(append: boolean) {
+  const inferred = reasoner.inferSchema();
+  for (const [attr, patterns] of Object.entries(inferred)) {
+    patterns.forEach(p => console.log(formatSchemaDirective(attr, p)));
+  }
+  const {added, removed} = diffPatterns(reasoner.patternsForAttributes, inferred);
+  if (!added.length && !removed.length) {
+    console.log('No differences from the existing schema');
+  } else {
+    console.log('Differences from the existing schema');
+    added.forEach(d => console.log(`+ ${d}`));
+    removed.forEach(d => console.log(`- ${d}`));
+  }
+  if (append && added.length) {
+    await writeFile(options.file, insertBeforeFirstClause(await readFile(options.file, 'utf8'), added));
+    console.log(`Added ${added.length} directive${added.length === 1 ? '' : 's'} to ${options.file}, before its first clause`);
+  }
+}
+
+/**
+ * Inserts lines after the directives at the start of .rete source, so that they come before its facts and
+ * productions, or at its end if it has none.
+ */
+function insertBeforeFirstClause(source: string, lines: string[]) {
+  const sourceLines = source.split('\n');
+  const firstClause = sourceLines.findIndex(line => line.trim() && !line.trim().startsWith('#'));
+  if (firstClause < 0) {
+    return `${source.replace(/\n*$/, '\n')}${lines.join('\n')}\n`;
+  }
+  sourceLines.splice(firstClause, 0, ...lines);
+  return sourceLines.join('\n');
+}
+
+async function interactiveSchema(prompt: string) {
+  const [command, ...flags] = prompt.trim().split(/\s+/);
+  if (command !== 'infer' || flags.find(f => f !== '--append')) {
+    console.warn(`Unknown schema command ${prompt}`);
+    return;
+  }
+  await inferSchema(flags.includes('--append'));
+}
+
+function interactiveRun(prompt: string) {
+  const before = JSON.stringify(reasoner.serialize());
+  const {changed, queryResults, factImports} = reasoner.load(prompt);
+  factImports.forEach(i => console.log(`Loaded ${formatFactImport(i)}`));
+  printQueryResults(queryResults, false, outputFormat);
+  if (changed) {
+    rememberForUndo(before);
+    runToStableState();
+    reasoner.showKnowledgeBase();
+  }
+}
+
+const snapshotSuffix = '.snapshot.json';
+
+function namedSnapshotPath(name: string) {
+  return joinPath(parsePath(options.file).dir, `${parsePath(options.file).name}.${name}${snapshotSuffix}`);
+}
+
+function snapshotName(prompt: string) {
+  const name = prompt.trim();
+  if(!/^[\w-]+$/.test(name)) {
+    console.error(`Malformed snapshot name ${name}, use letters, digits, - and _`);
+    return undefined;
+  }
+  return name;
+}
+
+async function interactiveSave(prompt: string) {
+  const name = snapshotName(prompt);
+  if(name) {
+    await reasoner.save(namedSnapshotPath(name), options.gzip);
+    console.log(`Snapshot ${name} saved`);
+  }
+}
+
+async function interactiveLoadFacts(prompt: string) {
+  const [format, file, ...mappingWords] = prompt.trim().split(/\s+/);
+  const factFormat = factFormats.find(f => f === format)!;
+  const mapping = parseFactMapping(mappingWords);
+  if(!file || typeof mapping === 'string') {
+    console.error(`Malformed load command ${prompt}${typeof mapping === 'string' ? `: ${mapping}` : ''}`);
+    return;
+  }
+  if(!existsSync(file)) {
+    console.error(`No file ${file}`);
+    return;
+  }
+  const before = JSON.stringify(reasoner.serialize());
+  const factImport = reasoner.loadFacts(factFormat, await readFile(file, 'utf8'), mapping, file);
+  console.log(`Loaded ${formatFactImport(factImport)}`);
+  if(factImport.added) {
+    rememberForUndo(before);
+    runToStableState();
+    reasoner.showKnowledgeBase();
+  }
+}
+
+async function interactiveLoad(prompt: string) {
+  if(factFormats.find(f => f === prompt.trim().split(/\s+/)[0])) {
+    await interactiveLoadFacts(prompt);
+    return;
+  }
+  const name = snapshotName(prompt);
+  if(!name) return;
+  if(!existsSync(namedSnapshotPath(name))) {
+    console.error(`No snapshot ${name}, use "snapshots" to list them`);
+    return;
+  }
+  const restored = new Reasoner(reasonerOptions);
+  await restored.restore(namedSnapshotPath(name));
+  rememberForUndo(JSON.stringify(reasoner.serialize()));
+  reasoner = restored;
+  console.log(`Snapshot ${name} loaded`);
+  reasoner.showKnowledgeBase();
+}
+
+async function interactiveSnapshots() {
+  const dir = parsePath(options.file).dir || '.';
+  const prefix = `${parsePath(options.file).name}.`;
+  const files = (await readdir(dir)).filter(f => f.startsWith(prefix) && f.endsWith(snapshotSuffix));
+  if(!files.length) {
+    console.log('No snapshots saved');
+  }
+  for (const file of files) {
+    const {mtime} = await stat(joinPath(dir, file));
+    console.log(`${file.slice(prefix.length, -snapshotSuffix.length)}\t${mtime.toLocaleString()}`);
+  }
+}
+
+async function interactiveExport(prompt: string) {
+  const file = prompt.trim();
+  if(!file) {
+    console.error('Missing file to export to');
+    return;
+  }
+  await writeFile(file, exportSource(reasoner));
+  console.log(`Knowledge base exported to ${file}`);
+}
+
+/**
+ * The format is taken from the extension of the file when not given: .nt and .nq are N-Triples, .json and .jsonld
+ * are JSON-LD, anything else is Turtle.
+ */
+function rdfExportOptions(
+  file: string,
+  format: string | undefined,
+  select: string | undefined,
+  provenance: string | undefined,
+): RdfExportOptions | string {
+  const extension = extname(file).toLowerCase();
+  const defaultFormat: RdfFormat = ['.nt', '.nq'].includes(extension) ? 'ntriples'
+    : ['.json', '.jsonld'].includes(extension) ? 'jsonld'
+    : 'turtle';
+  const rdfFormat = format === undefined ? defaultFormat : rdfFormats.find(f => f === format);
+  if(!rdfFormat) {
+    return `Unknown format ${format}, expected one of ${rdfFormats.join(', ')}`;
+  }
+  const wmeSelection = select === undefined ? 'all' : wmeSelections.find(s => s === select);
+  if(!wmeSelection) {
+    return `Unknown selection ${select}, expected one of ${wmeSelections.join(', ')}`;
+  }
+  const rdfProvenance = provenance === undefined ? 'none' : provenances.find(p => p === provenance);
+  if(!rdfProvenance) {
+    return `Unknown provenance ${provenance}, expected one of ${provenances.join(', ')}`;
+  }
+  return {format: rdfFormat, select: wmeSelection, provenance: rdfProvenance};
+}
+
+async function interactiveExportWM(prompt: string) {
+  const strings = prompt.trim().split(/\s+/).filter(s => s);
+  const flags: {[flag: string]: string} = {};
+  while(strings[0]?.startsWith('--')) {
+    const [flag, value] = strings.splice(0, 2);
+    if(!['--format', '--select', '--provenance'].includes(flag) || value === undefined) {
+      console.error(`Malformed export-wm command ${prompt}`);
+      return;
+    }
+    flags[flag] = value;
+  }
+  const file = strings.join(' ');
+  if(!file) {
+    console.error('Missing file to export to');
+    return;
+  }
+  const rdfOptions = rdfExportOptions(file, flags['--format'], flags['--select'], flags['--provenance']);
+  if(typeof rdfOptions === 'string') {
+    console.error(rdfOptions);
+    return;
+  }
+  await writeFile(file, exportWorkingMemory(reasoner, rdfOptions));
+  console.log(`Working memory exported to ${file}`);
+}
+
+function interactiveUndo() {
+  const serializedSession = undoJournal.pop();
+  if(!serializedSession) {
+    console.log('Nothing to undo');
+    return;
+  }
+  const restored = new Reasoner(reasonerOptions);
+  restored.deserialize(JSON.parse(serializedSession) as SerializedSession);
+  reasoner = restored;
+  reasoner.showKnowledgeBase();
+}
+
+async function interactive() {
+  console.log('Use "quit", "exit" or "bye" to exit, "help" for a description of available commands.');
+  do {
+    try {
+      const answer = (await input({message: (openAiState.contextLength ? `[${openAiState.contextLength}]` : '') + '>'})).trim();
+      if(!answer) {
+        console.log(`It seems like your message was empty. Could you please provide the command, Rete-next clauses or English queries you would like assistance with?`);
+        continue;
+      }
+      if (answer.toLowerCase() === 'bye' || answer.toLowerCase() === 'exit' || answer.toLowerCase() === 'quit') {
+        console.log('Have a nice day');
+        break;
+      }
+      if(answer.toLowerCase().startsWith('help')) {
+        interactiveHelp(answer.substring(4));
+      } else if(answer.toLowerCase().startsWith('retract')) {
+        interactiveRetract(answer.substring(7));
+      } else if(answer.toLowerCase().startsWith('explain')) {
+        interactiveExplain(answer.substring(7));
+      } else if(answer.toLowerCase().startsWith('whynot')) {
+        interactiveWhyNot(answer.substring(6));
+      } else if(answer.toLowerCase().startsWith('schema')) {
+        await interactiveSchema(answer.substring(6));
+      } else if(answer.toLowerCase().startsWith('run')) {
+        interactiveRun(answer.substring(3));
+      } else if(answer.toLowerCase().startsWith('save')) {
+        await interactiveSave(answer.substring(4));
+      } else if(answer.toLowerCase().startsWith('load')) {
+        await interactiveLoad(answer.substring(4));
+      } else if(answer.toLowerCase() === 'snapshots') {
+        await interactiveSnapshots();
+      } else if(answer.toLowerCase() === 'undo') {
+        interactiveUndo();
+      } else if(answer.toLowerCase().startsWith('export-wm')) {
+        await interactiveExportWM(answer.substring(9));
+      } else if(answer.toLowerCase().startsWith('export')) {
+        await interactiveExport(answer.substring(6));
+      } else if(answer.toLowerCase() === 'clear') {
+        interactiveClear();
+      } else {
+        await interactiveChat(reasoner, answer, outputFormat);
+      }
+      options.autosave && await reasoner.save(snapshotPath, options.gzip);
+    } catch (e) {
+      console.error(e);
+    }
+  } while (true);
+}
+
+if (options.check) {
+  const fileContents = await readFile(options.file, 'utf8');
+  const issues = lint(fileContents, options.file);
+  issues.forEach(issue => console.log(formatLintIssue(options.file, issue)));
+  process.exit(issues.find(issue => issue.severity === 'error') ? 1 : 0);
+}
+
+function printReconciliation(reconciliation: Reconciliation) {
+  log(`${options.file} has changed since the session was saved, merged the changes:`);
+  const {productionsAdded, productionsRemoved, productionsKept, directivesChanged, assertsKept, retractionsKept} = reconciliation;
+  productionsAdded.forEach(p => log(` + production "${p}"`));
+  productionsRemoved.forEach(p => log(` - production "${p}"`));
+  productionsKept.forEach(p => log(` Kept production "${p}"`));
+  directivesChanged.length && log(` Directives changed: ${directivesChanged.join(', ')}`);
+  assertsKept.forEach(w => log(` Kept assert of ${w}`));
+  retractionsKept.forEach(w => log(` Kept retraction of ${w}`));
+}
+
+const snapshotPath = joinPath(parsePath(options.file).dir, parsePath(options.file).name + '.json');
+
+if (!options.clean && existsSync(snapshotPath)) {
+  const fileContents = existsSync(options.file) ? await readFile(options.file, 'utf8') : undefined;
+  try {
+    const reconciliation = await reasoner.restore(snapshotPath, {
+      source: fileContents,
+      sourcePath: options.file,
+      refuseStale: options.refuseStale,
+    });
+    reconciliation && printReconciliation(reconciliation);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+} else {
+  const fileContents: string = await readFile(options.file, 'UTF8' as any) as unknown as string; //Ugly hack to counteract bad typing
+  try {
+    const {queryResults, factImports} = reasoner.loadSource(fileContents, options.file);
+    factImports.forEach(i => log(`Loaded ${formatFactImport(i)}`));
+    // in json and csv, the queries are only answered after running, so that each has one result
+    structuredOutput || printQueryResults(queryResults, false, outputFormat);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit();
+  }
+}
+
+if (reasoner.nonDeterministicFixpointPossible) {
+  log('Non-deterministic fixpoint cannot be ruled out');
+}
+
+if (options.printStrata) {
+  printStrata(reasoner);
+}
+
+runToStableState();
+printQueryResults(reasoner.runQueries(), false, outputFormat);
+structuredOutput && !options.interactive || reasoner.showKnowledgeBase();
+
+if(reasoner.schemaViolations && !options.interactive) {
+  console.error(`The strict schema check refused ${reasoner.schemaViolations} fact(s), production(s) or assert(s)`);
+  process.exitCode = 1;
+}
+
+if(options.inferSchema !== undefined) {
+  if(options.inferSchema !== null && options.inferSchema !== 'append') {
+    console.warn(`Unknown infer-schema mode ${options.inferSchema}`);
+  } else {
+    await inferSchema(options.inferSchema === 'append');
+  }
+}
+
+if(options.interactive) {
+  await interactive();
+}
+
+if(options.serve !== undefined) {
+  const server = await serve(reasoner, {
+    port: options.serve,
+    host: options.host,
+    save: async () => {
+      await reasoner.save(snapshotPath, options.gzip);
+      return snapshotPath;
+    },
+    reporter: requestReporter,
+  });
+  const {address, port} = server.address() as AddressInfo;
+  console.log(`Serving the knowledge base on http://${address.includes(':') ? `[${address}]` : address}:${port}, interrupt to stop`);
+  await new Promise<void>(resolve => process.once('SIGINT', () => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  }));
+}
+
+if(options.export) {
+  await writeFile(options.export, exportSource(reasoner));
+  options.trace && console.log(`Knowledge base exported to ${options.export}`);
+}
+
+if(options.exportWm) {
+  const rdfOptions = rdfExportOptions(options.exportWm, options.wmFormat, options.wmSelect, options.wmProvenance);
+  if(typeof rdfOptions === 'string') {
+    console.error(rdfOptions);
+    process.exitCode = 1;
+  } else {
+    await writeFile(options.exportWm, exportWorkingMemory(reasoner, rdfOptions));
+    options.trace && console.log(`Working memory exported to ${options.exportWm}`);
+  }
+}
+
+if(options.graph) {
+  const format: GraphFormat = extname(options.graph).toLowerCase() === '.json' ? 'json' : 'dot';
+  await writeFile(options.graph, formatJustificationGraph(reasoner.justificationGraph(), format));
+  options.trace && console.log(`Justification graph written to ${options.graph}`);
+}
+
+await reasoner.save(snapshotPath, options.gzip);
@@ -0,0 +1,100 @@
+import {FuzzyWME, GenericCondition} from 'rete-next/index';
+import {builtinHedges, DeclaredFuzzyVariable, formatFuzzyValDefinition} from './fuzzy';
+import {Reasoner} from './reasoner';
+import {formatSchemaDirective} from './schema';
+import {ProductionSpec, Query} from './types';
+
+/**
+ * Writes the knowledge base back as source text: the directives, the axioms, the productions by stratum and the
+ * queries. Loading the text into a fresh Reasoner and running it rebuilds the same knowledge base. What the
+ * productions derived is left out, as running derives it again.
+ */
+export function exportSource(reasoner: Reasoner): string {
+  const lines: string[] = [];
+
+  for (const [attr, patterns] of Object.entries(reasoner.patternsForAttributes)) {
+    patterns.forEach(p => lines.push(formatSchemaDirective(attr, p)));
+  }
+
+  for (const hedge of reasoner.fuzzyHedges) {
+    const builtin = builtinHedges.find(h => h.name === hedge.name);
+    if (!builtin || builtin.exponent !== hedge.exponent || builtin.complement !== hedge.complement) {
+      lines.push(`#fuzzy hedge ${hedge.name} ${hedge.complement ? 'not ' : ''}${hedge.exponent}`);
+    }
+  }
+  for (const {name, definitions, range} of reasoner.fuzzyVariableKinds) {
+    const values = [...(range ? [`range ${range[0]} ${range[1]}`] : []), ...definitions.map(formatFuzzyValDefinition)];
+    lines.push(`#fuzzy kind ${name} ${values.join(', ')}`);
+  }
+  for (const fuzzyVariable of reasoner.rete.fuzzyVariables as DeclaredFuzzyVariable[]) {
+    lines.push(`#fuzzy var ${fuzzyVariable.name} ${fuzzyVariable.fuzzyVariableKind.name}`);
+  }
+  if (reasoner.fuzzySystem) {
+    lines.push(`#fuzzy system ${[reasoner.fuzzySystem.name, ...reasoner.fuzzySystem.parameters].join(' ')}`);
+  }
+  if (reasoner.defuzzificationMethod !== 'inverse-average') {
+    lines.push(`#fuzzy defuzzify ${reasoner.defuzzificationMethod}`);
+  }
+  for (const [variable, method] of Object.entries(reasoner.defuzzificationMethodsOfVariables)) {
+    lines.push(`#fuzzy defuzzify ${method} ${variable}`);
+  }
+
+  for (const [prefix, namespace] of Object.entries(reasoner.prefixes)) {
+    lines.push(`#prefix ${prefix}: <${namespace}>`);
+  }
+
+  if (reasoner.schemaCheck) {
+    lines.push(`#schemacheck ${reasoner.strictSchemaCheck ? 'strict' : 'on'}`);
+  }
+
+  const axioms = reasoner.justifications
+    .filter(j => !(j.wme instanceof FuzzyWME) && j.justifications.find(jj => 'axiomatic' in jj))
+    .map(j => j.wme.toString());
+  if (axioms.length) {
+    lines.push('', '(!', ...axioms.map(a => ` ${a}`), ')');
+  }
+
+  reasoner.strata.forEach((stratum, i) => {
+    i > 0 && lines.push('#stratum');
+    for (const productionSpec of stratum) {
+      lines.push('', ...formatProduction(productionSpec));
+    }
+  });
+
+  for (const query of reasoner.queries) {
+    lines.push('', ...formatQuery(query));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function formatConditions(conditions: GenericCondition[], indentation: string) {
+  return conditions.map(c => `${indentation}${c.toString()}`);
+}
+
+/**
+ * Formats a production as source text, with its `#salience` and `#weight` directives, one line per element.
+ */
+export function formatProduction({production, rhsAssert, salience, weight}: ProductionSpec): string[] {
+  return [
+    ...(salience ? [`#salience ${salience}`] : []),
+    ...(weight !== undefined ? [`#weight ${weight}`] : []),
+    '(',
+    ...formatConditions(production.lhs as GenericCondition[], ' '),
+    `-> "${production.rhs}"`,
+    ...(rhsAssert ? [' (!', ...formatConditions(rhsAssert, '   '), ' )'] : []),
+    ')',
+  ];
+}
+
+/**
+ * Formats a query as it was written, if it was read from source text.
+ */
+function formatQuery({lhs, variables, text}: Query): string[] {
+  return text !== undefined ? [text] : [
+    '(',
+    ...formatConditions(lhs, ' '),
+    '->',
+    ` ${variables.map(v => `<${v}>`).join(',')}`,
+    ')',
+  ];
+}
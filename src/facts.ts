@@ -0,0 +1,241 @@
+export type FactFormat = 'csv' | 'json' | 'ntriples';
+
+export const factFormats: FactFormat[] = ['csv', 'json', 'ntriples'];
+
+export type Triple = [string, string, string];
+
+/**
+ * How rows and objects become triples: the column or property whose value is the id of the triples made from a row
+ * or object (by default the first column of CSV, `id` for JSON), and the columns or properties that become
+ * attributes (by default all the others). N-Triples need no mapping.
+ */
+export type FactMapping = {
+  key?: string,
+  columns?: string[],
+}
+
+export type FactImport = {
+  path: string,
+  added: number,
+  duplicates: number, // facts already in working memory
+  refused: number, // by the strict schema check
+}
+
+/**
+ * Parses the `key=<column>` and `columns=<column>,<column>...` words that follow the path in `#load` and `load`.
+ * Returns an error message if a word is not understood.
+ */
+export function parseFactMapping(words: string[]): FactMapping | string {
+  const mapping: FactMapping = {};
+  for (const word of words) {
+    const [name, value] = word.split('=', 2);
+    if (name === 'key' && value) {
+      mapping.key = value;
+    } else if (name === 'columns' && value) {
+      mapping.columns = value.split(',').filter(c => c);
+    } else {
+      return `Unknown mapping ${word}, expected key=<column> or columns=<column>,<column>...`;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Turns the text of a CSV, JSON or N-Triples file into triples. Values are made into symbols the Rete parser
+ * accepts, and empty values are skipped. Throws on malformed input.
+ */
+export function triplesOf(format: FactFormat, text: string, mapping: FactMapping = {}): Triple[] {
+  switch (format) {
+    case 'csv': return csvTriples(text, mapping);
+    case 'json': return jsonTriples(text, mapping);
+    case 'ntriples': return ntriplesTriples(text);
+  }
+}
+
+/**
+ * Formats triples as an assert clause.
+ */
+export function formatTriples(triples: Triple[]): string {
+  return `(!\n${triples.map(t => ` (${t.join(' ')})`).join('\n')}\n)`;
+}
+
+/**
+ * Formats the summary of loading facts, like `animals.csv: 12 facts added, 3 duplicates`.
+ */
+export function formatFactImport({path, added, duplicates, refused}: FactImport) {
+  const counts = [`${added} fact${added === 1 ? '' : 's'} added`];
+  duplicates && counts.push(`${duplicates} duplicate${duplicates === 1 ? '' : 's'}`);
+  refused && counts.push(`${refused} refused`);
+  return `${path}: ${counts.join(', ')}`;
+}
+
+function symbol(value: unknown): string | undefined {
+  const s = String(value ?? '').trim().replace(/[\s()<>"]+/g, '_');
+  return s || undefined;
+}
+
+function pushTriple(triples: Triple[], id: unknown, attr: unknown, val: unknown) {
+  const fields = [symbol(id), symbol(attr), symbol(val)];
+  if (fields[0] && fields[1] && fields[2]) {
+    triples.push(fields as Triple);
+  }
+}
+
+/**
+ * Splits CSV text into records of fields, following RFC 4180: fields may be quoted, and quoted fields may contain
+ * commas, line breaks and doubled quotes.
+ */
+function csvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && !field) {
+      quoted = true;
+    } else if (c === ',') {
+      record.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      c === '\r' && text[i + 1] === '\n' && i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Unterminated quoted field in CSV record ${records.length + 1}`);
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(r => r.length > 1 || r[0].trim());
+}
+
+function csvTriples(text: string, {key, columns}: FactMapping): Triple[] {
+  const [header, ...rows] = csvRecords(text);
+  if (!header) {
+    return [];
+  }
+  const keyColumn = key ?? header[0];
+  const keyIndex = header.indexOf(keyColumn);
+  if (keyIndex < 0) {
+    throw new Error(`No key column ${keyColumn} in the CSV header`);
+  }
+  const missing = (columns ?? []).filter(c => !header.includes(c));
+  if (missing.length) {
+    throw new Error(`No column${missing.length === 1 ? '' : 's'} ${missing.join(', ')} in the CSV header`);
+  }
+  const triples: Triple[] = [];
+  rows.forEach((row, i) => {
+    if (row.length !== header.length) {
+      throw new Error(`CSV record ${i + 2} has ${row.length} fields, but the header has ${header.length}`);
+    }
+    header.forEach((column, j) => {
+      if (j !== keyIndex && (!columns || columns.includes(column))) {
+        pushTriple(triples, row[keyIndex], column, row[j]);
+      }
+    });
+  });
+  return triples;
+}
+
+/**
+ * Accepts an array of objects, or an object whose properties are objects keyed by their id. Array values become
+ * a triple for each element. Object values are linked by their own key and their triples are added too.
+ */
+function jsonTriples(text: string, {key = 'id', columns}: FactMapping): Triple[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`);
+  }
+  const triples: Triple[] = [];
+  const isObject = (o: unknown): o is {[property: string]: unknown} => typeof o === 'object' && o !== null && !Array.isArray(o);
+
+  const addObject = (object: {[property: string]: unknown}, id: unknown) => {
+    if (id === undefined || id === null || isObject(id) || Array.isArray(id)) {
+      throw new Error(`Object ${JSON.stringify(object)} has no ${key} to be the id of its triples`);
+    }
+    for (const [property, value] of Object.entries(object)) {
+      if (property === key || (columns && !columns.includes(property))) continue;
+      for (const element of Array.isArray(value) ? value : [value]) {
+        if (isObject(element)) {
+          pushTriple(triples, id, property, element[key]);
+          addObject(element, element[key]);
+        } else {
+          pushTriple(triples, id, property, element);
+        }
+      }
+    }
+  };
+
+  if (Array.isArray(json)) {
+    for (const object of json) {
+      if (!isObject(object)) {
+        throw new Error(`Expected an array of objects, but found ${JSON.stringify(object)}`);
+      }
+      addObject(object, object[key]);
+    }
+  } else if (isObject(json)) {
+    for (const [id, object] of Object.entries(json)) {
+      if (!isObject(object)) {
+        throw new Error(`Expected an object for ${id}, but found ${JSON.stringify(object)}`);
+      }
+      addObject(object, object[key] ?? id);
+    }
+  } else {
+    throw new Error('Expected an array of objects or an object of objects');
+  }
+  return triples;
+}
+
+const ntriplesTerm = String.raw`<([^>]*)>|(_:\S+)|"((?:[^"\\]|\\.)*)"(?:@[\w-]+|\^\^<[^>]*>)?`;
+const ntriplesLine = new RegExp(String.raw`^(${ntriplesTerm})\s+(${ntriplesTerm})\s+(${ntriplesTerm})\s*\.\s*(#.*)?$`);
+
+/**
+ * IRIs become symbols as they are, without the angle brackets, blank nodes keep their `_:` label and literals
+ * lose their quotes, language tag and datatype.
+ */
+function ntriplesTriples(text: string): Triple[] {
+  const triples: Triple[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const match = trimmed.match(ntriplesLine);
+    if (!match) {
+      throw new Error(`Malformed N-Triples line ${i + 1}: ${trimmed}`);
+    }
+    const term = (offset: number) => match[offset + 1] ?? match[offset + 2] ?? unescapeLiteral(match[offset + 3]);
+    pushTriple(triples, term(1), term(5), term(9));
+  });
+  return triples;
+}
+
+function unescapeLiteral(literal: string) {
+  return literal.replace(/\\(u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case 'u':
+      case 'U': return String.fromCodePoint(parseInt(escape.substring(1), 16));
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      default: return escape;
+    }
+  });
+}
@@ -0,0 +1,406 @@
+import {FuzzySystem, FuzzyVariable} from 'rete-next/index';
+
+export type MembershipFunctionName = 'sigmoid' | 'tri' | 'trap' | 'gauss' | 'singleton';
+
+export type FuzzyValDefinition =
+  | { name: string, fnc?: 'sigmoid', a: number, c: number } // fnc is missing in sessions saved before other functions existed
+  | { name: string, fnc: 'tri', a: number, b: number, c: number }
+  | { name: string, fnc: 'trap', a: number, b: number, c: number, d: number }
+  | { name: string, fnc: 'gauss', mean: number, sigma: number }
+  | { name: string, fnc: 'singleton', value: number };
+
+export interface FuzzyVariableKind {
+  name: string,
+  definitions: FuzzyValDefinition[],
+  range?: [number, number], // universe of discourse
+}
+
+/**
+ * A linguistic hedge, applied as a prefix to a fuzzy value, as in "very-excellent". The membership of the hedged
+ * value is the membership of the value raised to the exponent, and complemented if so defined.
+ */
+export type FuzzyHedge = {
+  name: string,
+  exponent: number,
+  complement: boolean,
+};
+
+export const builtinHedges: FuzzyHedge[] = [
+  {name: 'very', exponent: 2, complement: false}, // concentration
+  {name: 'somewhat', exponent: 0.5, complement: false}, // dilation
+  {name: 'not', exponent: 1, complement: true},
+];
+
+function applyHedge({exponent, complement}: FuzzyHedge, μ: number) {
+  const hedged = μ ** exponent;
+  return complement ? 1 - hedged : hedged;
+}
+
+function unapplyHedge({exponent, complement}: FuzzyHedge, μ: number) {
+  return (complement ? 1 - μ : μ) ** (1 / exponent);
+}
+
+export const membershipFunctionParameters: {[fnc in MembershipFunctionName]: string[]} = {
+  sigmoid: ['a', 'c'],
+  tri: ['a', 'b', 'c'],
+  trap: ['a', 'b', 'c', 'd'],
+  gauss: ['mean', 'sigma'],
+  singleton: ['value'],
+};
+
+/**
+ * The inverse of {@link parseFuzzyValDefinition}: the definition of a fuzzy value as written in `#fuzzy kind`.
+ */
+export function formatFuzzyValDefinition(definition: FuzzyValDefinition): string {
+  const fnc = definition.fnc ?? 'sigmoid';
+  const params = membershipFunctionParameters[fnc].map(p => (definition as {[parameter: string]: unknown})[p]);
+  return `${definition.name}:${fnc} ${params.join(' ')}`;
+}
+
+/**
+ * Parses a membership function and its parameters, as in "tri 0 5 10". Returns an error message if malformed.
+ */
+export function parseFuzzyValDefinition(name: string, def: string): FuzzyValDefinition | string {
+  const [fnc, ...paramStrings] = def.split(/\s+/);
+  if(!(fnc in membershipFunctionParameters)) {
+    return `Unknown membership function ${fnc}. Known functions: ${Object.keys(membershipFunctionParameters).join(', ')}`;
+  }
+  const parameterNames = membershipFunctionParameters[fnc as MembershipFunctionName];
+  const params = paramStrings.map(parseFloat);
+  if(params.length !== parameterNames.length || params.find(Number.isNaN) !== undefined) {
+    return `Invalid ${parameterNames.map(p => `'${p}'`).join(', ')} values for ${fnc} function: ${paramStrings.join(', ')}`;
+  }
+  const ordered = (xs: number[]) => xs.every((x, i) => i === 0 || xs[i - 1] <= x);
+  switch (fnc as MembershipFunctionName) {
+    case 'sigmoid':
+      return {name, a: params[0], c: params[1]};
+    case 'tri':
+      return ordered(params) ? {name, fnc: 'tri', a: params[0], b: params[1], c: params[2]}
+        : `Parameters of tri function must be in ascending order: ${paramStrings.join(', ')}`;
+    case 'trap':
+      return ordered(params) ? {name, fnc: 'trap', a: params[0], b: params[1], c: params[2], d: params[3]}
+        : `Parameters of trap function must be in ascending order: ${paramStrings.join(', ')}`;
+    case 'gauss':
+      return params[1] > 0 ? {name, fnc: 'gauss', mean: params[0], sigma: params[1]}
+        : `Sigma of gauss function must be positive: ${paramStrings[1]}`;
+    case 'singleton':
+      return {name, fnc: 'singleton', value: params[0]};
+  }
+}
+
+/**
+ * The degree of membership of a crisp value in a fuzzy value.
+ */
+export function membership(def: FuzzyValDefinition, val: number): number {
+  switch (def.fnc) {
+    case undefined:
+    case 'sigmoid':
+      return sigmoid(def.a, def.c, val);
+    case 'tri':
+      if(val < def.a || val > def.c) return 0;
+      if(val <= def.b) return def.b === def.a ? 1 : (val - def.a) / (def.b - def.a);
+      return def.c === def.b ? 1 : (def.c - val) / (def.c - def.b);
+    case 'trap':
+      if(val < def.a || val > def.d) return 0;
+      if(val < def.b) return (val - def.a) / (def.b - def.a);
+      if(val <= def.c) return 1;
+      return def.d === def.c ? 1 : (def.d - val) / (def.d - def.c);
+    case 'gauss':
+      return Math.exp(-((val - def.mean) ** 2) / (2 * def.sigma ** 2));
+    case 'singleton':
+      return Math.abs(val - def.value) < 1e-9 ? 1 : 0;
+  }
+}
+
+/**
+ * A crisp value whose degree of membership in a fuzzy value is μ. Only sigmoids are invertible. For the other
+ * functions, this is the middle of the interval where the degree of membership is at least μ.
+ */
+export function inverseMembership(def: FuzzyValDefinition, μ: number): number {
+  switch (def.fnc) {
+    case undefined:
+    case 'sigmoid':
+      return inverse_sigmoid(def.a, def.c, μ);
+    case 'tri':
+      return ((def.a + μ * (def.b - def.a)) + (def.c - μ * (def.c - def.b))) / 2;
+    case 'trap':
+      return ((def.a + μ * (def.b - def.a)) + (def.d - μ * (def.d - def.c))) / 2;
+    case 'gauss':
+      return def.mean;
+    case 'singleton':
+      return def.value;
+  }
+}
+
+export function sigmoid(a: number, c: number, val: number) {
+  return 1 / (1 + Math.exp(-a * (val - c)));
+}
+
+export function inverse_sigmoid(a: number, c: number, y: number) {
+  return c - (Math.log(1/y - 1))/a;
+}
+
+export class DeclaredFuzzyVariable implements FuzzyVariable {
+  constructor(public name: string, public fuzzyVariableKind: FuzzyVariableKind, public hedges: FuzzyHedge[] = builtinHedges) {
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  computeMembershipValueForFuzzyValue(fuzzyValue: string, val: number): number {
+    const resolved = this.resolveFuzzyValue(fuzzyValue);
+    if(resolved) {
+      return resolved.hedges.reduceRight((μ, hedge) => applyHedge(hedge, μ), membership(resolved.definition, val));
+    }
+    return 0;
+  }
+
+  computeValueForFuzzyMembershipValue(fuzzyValue: string, μ: number): number {
+    const resolved = this.resolveFuzzyValue(fuzzyValue);
+    if(resolved) {
+      const μOfDefinition = resolved.hedges.reduce((μ, hedge) => unapplyHedge(hedge, μ), μ);
+      const val = inverseMembership(resolved.definition, μOfDefinition);
+      const range = this.fuzzyVariableKind.range;
+      return range ? Math.min(Math.max(val, range[0]), range[1]) : val;
+    }
+    return 0;
+  }
+
+  isFuzzyValue(fuzzyValue: string): boolean {
+    return !!this.resolveFuzzyValue(fuzzyValue);
+  }
+
+  /**
+   * Finds the definition of a fuzzy value of the kind, and the hedges prefixed to it, outermost first.
+   */
+  resolveFuzzyValue(fuzzyValue: string): { definition: FuzzyValDefinition, hedges: FuzzyHedge[] } | undefined {
+    const definition = this.fuzzyVariableKind.definitions.find(x => x.name === fuzzyValue);
+    if(definition) {
+      return {definition, hedges: []};
+    }
+    for (const hedge of this.hedges) {
+      if(fuzzyValue.startsWith(hedge.name + '-')) {
+        const resolved = this.resolveFuzzyValue(fuzzyValue.substring(hedge.name.length + 1));
+        if(resolved) {
+          return {definition: resolved.definition, hedges: [hedge, ...resolved.hedges]};
+        }
+      }
+    }
+    return undefined;
+  }
+}
+
+export type DefuzzificationMethod = 'centroid' | 'bisector' | 'mom' | 'inverse-average';
+
+export const defuzzificationMethods: DefuzzificationMethod[] = ['centroid', 'bisector', 'mom', 'inverse-average'];
+
+const DEFUZZIFICATION_SAMPLES = 1000;
+
+/**
+ * The universe of discourse of a kind. Without a declared range, it is made to cover where the membership functions
+ * of its fuzzy values are not negligible.
+ */
+export function universeOfDiscourse(kind: FuzzyVariableKind): [number, number] {
+  if(kind.range) {
+    return kind.range;
+  }
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const def of kind.definitions) {
+    const [l, h] =
+      def.fnc === 'tri' ? [def.a, def.c]
+      : def.fnc === 'trap' ? [def.a, def.d]
+      : def.fnc === 'gauss' ? [def.mean - 4 * def.sigma, def.mean + 4 * def.sigma]
+      : def.fnc === 'singleton' ? [def.value, def.value]
+      : [def.c - 6 / Math.abs(def.a), def.c + 6 / Math.abs(def.a)];
+    lo = Math.min(lo, l);
+    hi = Math.max(hi, h);
+  }
+  return lo < hi ? [lo, hi] : [lo - 1, hi + 1];
+}
+
+/**
+ * Combines the μ-values of the fuzzy values of a variable into a crisp value. "inverse-average" averages the crisp
+ * values computed for each μ-value. The other methods aggregate the membership functions, clipped at their μ-value
+ * or scaled by it, and take the centroid, the bisector or the mean of the maxima of the result over the universe of
+ * discourse. Returns undefined when nothing has a positive membership.
+ */
+export function defuzzify(
+  method: DefuzzificationMethod,
+  variable: DeclaredFuzzyVariable,
+  memberships: [fuzzyValue: string, μ: number][],
+  implication: 'clip' | 'scale',
+): number | undefined {
+  if(method === 'inverse-average') {
+    let sum = 0;
+    for (const [fuzzyValue, μ] of memberships) {
+      sum += variable.computeValueForFuzzyMembershipValue(fuzzyValue, μ);
+    }
+    return sum / memberships.length;
+  }
+  const implied = memberships.filter(([fuzzyValue]) => variable.isFuzzyValue(fuzzyValue));
+  const [lo, hi] = universeOfDiscourse(variable.fuzzyVariableKind);
+  const xs: number[] = [];
+  for (let i = 0; i <= DEFUZZIFICATION_SAMPLES; i++) {
+    xs.push(lo + (hi - lo) * i / DEFUZZIFICATION_SAMPLES);
+  }
+  // Singletons have no width, so their values are sampled too
+  for (const [fuzzyValue] of implied) {
+    const def = variable.resolveFuzzyValue(fuzzyValue)!.definition;
+    def.fnc === 'singleton' && def.value >= lo && def.value <= hi && xs.push(def.value);
+  }
+  xs.sort((x, y) => x - y);
+  const ys = xs.map(x => Math.max(0, ...implied.map(([fuzzyValue, μ]) => {
+    const m = variable.computeMembershipValueForFuzzyValue(fuzzyValue, x);
+    return implication === 'clip' ? Math.min(μ, m) : μ * m;
+  })));
+  const total = ys.reduce((x, y) => x + y, 0);
+  if(total <= 0) {
+    return undefined;
+  }
+  switch (method) {
+    case 'centroid':
+      return xs.reduce((acc, x, i) => acc + x * ys[i], 0) / total;
+    case 'bisector': {
+      let cumulative = 0;
+      for (let i = 0; i < xs.length; i++) {
+        cumulative += ys[i];
+        if(cumulative >= total / 2) {
+          return xs[i];
+        }
+      }
+      return xs[xs.length - 1];
+    }
+    case 'mom': {
+      const max = Math.max(...ys);
+      const maxima = xs.filter((x, i) => max - ys[i] < 1e-9);
+      return maxima.reduce((x, y) => x + y, 0) / maxima.length;
+    }
+  }
+}
+
+/**
+ * A fuzzy system that can be saved in a session, by its name and parameters, and recreated by {@link createFuzzySystem}.
+ */
+export interface NamedFuzzySystem extends FuzzySystem {
+  readonly name: string,
+  readonly parameters: number[],
+}
+
+export class MinMaxFuzzySystem implements NamedFuzzySystem {
+  readonly name = 'min-max';
+  readonly parameters = [];
+
+  computeConjunction(...μs: number[]): number {
+    return Math.min(...μs);
+  }
+
+  computeDisjunction(...μs: number[]): number {
+    return Math.max(...μs);
+  }
+}
+
+export class MultiplicativeFuzzySystem implements NamedFuzzySystem {
+  readonly name = 'multiplicative';
+  readonly parameters = [];
+
+  computeConjunction(...μs: number[]): number {
+    return μs.reduce((x,y) => x * y, 1);
+  }
+
+  computeDisjunction(...μs: number[]): number {
+    //x0 + x1 + ... xn - x0*x1*x[n-1] - ... + ... - ... up to x0*x1*xn
+    const number_complements = μs.map(x => 1 - x);
+    const product = number_complements.reduce((x, y) => x * y, 1);
+    return 1 - product;
+  }
+}
+
+export class LukasiewiczFuzzySystem implements NamedFuzzySystem {
+  readonly name = 'lukasiewicz';
+  readonly parameters = [];
+
+  computeConjunction(...μs: number[]): number {
+    return Math.max(0, μs.reduce((x, y) => x + y, 0) - (μs.length - 1));
+  }
+
+  computeDisjunction(...μs: number[]): number {
+    return Math.min(1, μs.reduce((x, y) => x + y, 0));
+  }
+}
+
+export class EinsteinFuzzySystem implements NamedFuzzySystem {
+  readonly name = 'einstein';
+  readonly parameters = [];
+
+  computeConjunction(...μs: number[]): number {
+    return μs.reduce((x, y) => x * y / (2 - (x + y - x * y)), 1);
+  }
+
+  computeDisjunction(...μs: number[]): number {
+    return μs.reduce((x, y) => (x + y) / (1 + x * y), 0);
+  }
+}
+
+export class HamacherFuzzySystem implements NamedFuzzySystem {
+  readonly name = 'hamacher';
+
+  constructor(readonly λ: number) {
+  }
+
+  get parameters() {
+    return [this.λ];
+  }
+
+  computeConjunction(...μs: number[]): number {
+    return μs.reduce((x, y) => this.tNorm(x, y), 1);
+  }
+
+  computeDisjunction(...μs: number[]): number {
+    // The dual t-conorm: S(x, y) = 1 - T(1 - x, 1 - y)
+    return μs.reduce((x, y) => 1 - this.tNorm(1 - x, 1 - y), 0);
+  }
+
+  private tNorm(x: number, y: number) {
+    const denominator = this.λ + (1 - this.λ) * (x + y - x * y);
+    return denominator === 0 ? 0 : x * y / denominator;
+  }
+}
+
+export class DrasticFuzzySystem implements NamedFuzzySystem {
+  readonly name = 'drastic';
+  readonly parameters = [];
+
+  computeConjunction(...μs: number[]): number {
+    return μs.reduce((x, y) => x === 1 ? y : y === 1 ? x : 0, 1);
+  }
+
+  computeDisjunction(...μs: number[]): number {
+    return μs.reduce((x, y) => x === 0 ? y : y === 0 ? x : 1, 0);
+  }
+}
+
+export const fuzzySystemNames = ['min-max', 'multiplicative', 'lukasiewicz', 'einstein', 'hamacher', 'drastic'];
+
+/**
+ * Creates a fuzzy system by name. Returns an error message for unknown names or invalid parameters.
+ */
+export function createFuzzySystem(name: string, parameters: number[] = []): NamedFuzzySystem | string {
+  switch (name) {
+    case 'min-max': return new MinMaxFuzzySystem();
+    case 'multiplicative': return new MultiplicativeFuzzySystem();
+    case 'lukasiewicz':
+    case 'łukasiewicz': return new LukasiewiczFuzzySystem();
+    case 'einstein': return new EinsteinFuzzySystem();
+    case 'hamacher': {
+      const [λ] = parameters;
+      if(λ === undefined || Number.isNaN(λ) || λ < 0) {
+        return `Hamacher fuzzy system needs a non-negative parameter, as in "hamacher 0.5"`;
+      }
+      return new HamacherFuzzySystem(λ);
+    }
+    case 'drastic': return new DrasticFuzzySystem();
+    default: return `Unknown fuzzy system ${name}. Known systems: ${fuzzySystemNames.join(', ')}`;
+  }
+}
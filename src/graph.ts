@@ -0,0 +1,50 @@
+export type JustificationNodeKind = 'wme' | 'production' | 'axiomatic' | 'defuzzification' | 'fuzzification';
+
+export type JustificationNode = {
+  id: string,
+  kind: JustificationNodeKind,
+  label: string, // WME.toString() for WMEs, the production name for production justifications
+  μ?: number, // of fuzzy WMEs, production justifications with fuzzy tokens and fuzzifications
+}
+
+export type JustificationEdge = {
+  from: string, // the supporting node
+  to: string, // the supported node
+}
+
+export type JustificationGraph = {
+  nodes: JustificationNode[],
+  edges: JustificationEdge[],
+}
+
+export type GraphFormat = 'dot' | 'json';
+
+export const graphFormats: GraphFormat[] = ['dot', 'json'];
+
+const shapes: {[kind in JustificationNodeKind]: string} = {
+  wme: 'box',
+  production: 'ellipse',
+  axiomatic: 'plaintext',
+  defuzzification: 'diamond',
+  fuzzification: 'diamond',
+};
+
+function quote(s: string) {
+  return '"' + s.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+}
+
+export function justificationGraphToDot({nodes, edges}: JustificationGraph): string {
+  let ret = 'digraph justifications {\n  rankdir=BT;\n';
+  for (const {id, kind, label, μ} of nodes) {
+    const text = kind === 'wme' || kind === 'production' ? label : `[${label}]`;
+    ret += `  ${id} [label=${quote(text + (μ === undefined ? '' : `\nμ=${μ}`))}, shape=${shapes[kind]}];\n`;
+  }
+  for (const {from, to} of edges) {
+    ret += `  ${from} -> ${to};\n`;
+  }
+  return ret + '}\n';
+}
+
+export function formatJustificationGraph(graph: JustificationGraph, format: GraphFormat): string {
+  return format === 'dot' ? justificationGraphToDot(graph) : JSON.stringify(graph, null, 2) + '\n';
+}
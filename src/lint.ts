@@ -0,0 +1,210 @@
+import {Condition, Field, FieldType, GenericCondition} from 'rete-next/index';
+import {resolve as resolvePath} from 'path';
+import {Reasoner, ReasonerOptions, SourceError} from './reasoner';
+import {conditionsReadByLhs, constantOfField} from './strategies';
+import {ProductionSpec, SourceLocation} from './types';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintIssue = {
+  line: number, // 1-based
+  severity: LintSeverity,
+  code: string,
+  message: string,
+}
+
+/**
+ * A knowledge base read from source text without running it, with where its productions are in the text.
+ */
+export type SourceAnalysis = {
+  reasoner: Reasoner,
+  issues: LintIssue[], // sorted by line
+  locationOfProduction: Map<ProductionSpec, SourceLocation>, // of its name, without a file if it is in the text
+}
+
+/**
+ * Reads source text into a fresh knowledge base, without running it, and reports the problems found. The
+ * warnings the reasoner itself emits while reading are reported too, at the line of the directive or of the
+ * clauses that caused them. Given the path of the file the text was read from, files it includes are read too, and
+ * their problems are reported at the line of the #include directive.
+ */
+export function lint(input: string, path?: string): LintIssue[] {
+  return analyzeSource(input, path).issues;
+}
+
+/**
+ * Does what {@link lint} does, keeping the knowledge base read, for tools that need more than the issues. The
+ * options are those of the Reasoner reading the text, e.g. to check the schema.
+ */
+export function analyzeSource(input: string, path?: string, reasonerOptions: ReasonerOptions = {}): SourceAnalysis {
+  const issues: LintIssue[] = [];
+  let chunkStartLine = 1; // of the chunk being read, where the warnings of the reasoner are reported
+  const report = (severity: LintSeverity) => (message: string) =>
+    issues.push({line: chunkStartLine, severity, code: 'reasoner', message});
+  const reasoner = new Reasoner({
+    ...reasonerOptions,
+    reporter: {
+      log: message => (reasonerOptions.reporter ?? console).log(message),
+      warn: report('warning'),
+      error: report('error'),
+    },
+  });
+  const locationOfProduction = new Map<ProductionSpec, SourceLocation>();
+  const lineOfProduction = new Map<ProductionSpec, number>(); // in the text, that of the #include of included ones
+  const linesOfSchemaAttributes = new Map<string, number>();
+
+  const loadChunk = (chunk: string, startLine: number) => {
+    const productionsBefore = reasoner.productions.length;
+    chunkStartLine = startLine;
+    try {
+      reasoner.load(chunk, path);
+    } catch (e) {
+      if (e instanceof SourceError && path && e.file === resolvePath(path)) {
+        issues.push({line: startLine + e.line - 1, severity: 'error', code: 'parse', message: e.reason});
+      } else {
+        issues.push({line: startLine, severity: 'error', code: 'parse', message: (e as Error).message});
+      }
+    }
+    for (const productionSpec of reasoner.productions.slice(productionsBefore)) {
+      const {file, line} = reasoner.locationOfProduction.get(productionSpec) ?? {line: 1};
+      const inText = !file || (!!path && file === resolvePath(path));
+      lineOfProduction.set(productionSpec, inText ? startLine + line - 1 : startLine);
+      locationOfProduction.set(productionSpec, inText ? {line: startLine + line - 1} : {file, line});
+    }
+  };
+
+  const lines = input.split('\n');
+  let clauses = '';
+  let clausesStartLine = 1;
+  lines.forEach((line, i) => {
+    const trimmedLine = line.trim();
+    if(trimmedLine.startsWith('#')) {
+      if(clauses.trim()) {
+        loadChunk(clauses, clausesStartLine);
+      }
+      clauses = '';
+      // a directive whose problem is reported already is not read, as the reasoner would report it again
+      lintDirective(reasoner, trimmedLine, i + 1, issues, linesOfSchemaAttributes) || loadChunk(trimmedLine, i + 1);
+    } else {
+      if(!clauses.trim()) {
+        clauses = '';
+        clausesStartLine = i + 1;
+      }
+      clauses += line + '\n';
+    }
+  });
+  if(clauses.trim()) {
+    loadChunk(clauses, clausesStartLine);
+  }
+
+  lintProductions(reasoner, lineOfProduction, linesOfSchemaAttributes, issues);
+  return {reasoner, issues: issues.sort((i1, i2) => i1.line - i2.line), locationOfProduction};
+}
+
+/**
+ * Formats an issue as `file:line: severity: message [code]`, one per line, like compilers do.
+ */
+export function formatLintIssue(file: string, {line, severity, code, message}: LintIssue) {
+  return `${file}:${line}: ${severity}: ${message} [${code}]`;
+}
+
+/**
+ * Returns whether a problem of the directive was reported. Fuzzy directives are compared lowercased, as the reasoner
+ * reads them.
+ */
+function lintDirective(
+  reasoner: Reasoner,
+  directive: string,
+  line: number,
+  issues: LintIssue[],
+  linesOfSchemaAttributes: Map<string, number>,
+): boolean {
+  const words = directive.split(/\s+/);
+  const kind = words[3]?.toLowerCase();
+  if(words[0] === '#fuzzy' && words[1]?.toLowerCase() === 'var' && kind && !reasoner.fuzzyVariableKinds.find(k => k.name === kind)) {
+    issues.push({line, severity: 'error', code: 'undeclared-kind', message: `Fuzzy variable ${words[2]} is of undeclared kind ${words[3]}`});
+    return true;
+  } else if(words[0] === '#schema' && words[2]) {
+    const attr = words[2].endsWith('!') ? words[2].slice(0, -1) : words[2];
+    linesOfSchemaAttributes.has(attr) || linesOfSchemaAttributes.set(attr, line);
+  }
+  return false;
+}
+
+function lintProductions(
+  reasoner: Reasoner,
+  lineOfProduction: Map<ProductionSpec, number>,
+  linesOfSchemaAttributes: Map<string, number>,
+  issues: LintIssue[],
+) {
+  const producedByAsserts = new Set(reasoner.rete.working_memory.map(w => w.fields[1]));
+  const assertedConditions = (p: ProductionSpec) => (p.rhsAssert || []).filter(c => c instanceof Condition) as Condition[];
+  const anyAttributeProduced = !!reasoner.productions.find(p => assertedConditions(p).find(c => constantOfField(c.attrs[1]) === undefined));
+  const strataOfProducers = new Map<string, number[]>();
+  reasoner.strata.forEach((stratum, i) => {
+    for (const p of stratum) {
+      for (const c of assertedConditions(p)) {
+        const attr = constantOfField(c.attrs[1]);
+        attr !== undefined && strataOfProducers.set(attr, [...strataOfProducers.get(attr) ?? [], i]);
+      }
+    }
+  });
+  const stratumOf = (p: ProductionSpec) => reasoner.strata.findIndex(s => s.includes(p));
+
+  const usedAttributes = new Set(producedByAsserts);
+  for (const query of reasoner.queries) {
+    for (const [cond] of conditionsReadByLhs(query.lhs, false)) {
+      const attr = constantOfField(cond.attrs[1]);
+      attr !== undefined && usedAttributes.add(attr);
+    }
+  }
+
+  const productionsOfNames = new Map<string, ProductionSpec[]>();
+  for (const productionSpec of reasoner.productions) {
+    const {rhs, lhs, locationsOfAllVariablesInConditions} = productionSpec.production;
+    const line = lineOfProduction.get(productionSpec) ?? 1;
+    productionsOfNames.set(rhs, [...productionsOfNames.get(rhs) ?? [], productionSpec]);
+
+    for (const [cond, nonMonotonic] of conditionsReadByLhs(lhs as GenericCondition[], false)) {
+      const attr = constantOfField(cond.attrs[1]);
+      if(attr === undefined) continue;
+      usedAttributes.add(attr);
+      const producerStrata = strataOfProducers.get(attr) ?? [];
+      if(!nonMonotonic && !anyAttributeProduced && !producedByAsserts.has(attr) && !producerStrata.length) {
+        issues.push({line, severity: 'warning', code: 'never-fires', message: `Production "${rhs}" can never fire: no assert produces attribute ${attr} of ${cond.toString()}`});
+      }
+      const stratum = stratumOf(productionSpec);
+      if(!producedByAsserts.has(attr) && producerStrata.length && producerStrata.every(s => s > stratum)) {
+        issues.push({line, severity: 'warning', code: 'stratum-order', message: `Production "${rhs}" in stratum ${stratum} reads attribute ${attr}, which is only produced in stratum ${Math.min(...producerStrata)}`});
+      }
+    }
+
+    const boundVariables = Object.keys(locationsOfAllVariablesInConditions);
+    const unbound = new Set<string>();
+    for (const asserted of assertedConditions(productionSpec)) {
+      const attr = constantOfField(asserted.attrs[1]);
+      attr !== undefined && usedAttributes.add(attr);
+      for (const field of asserted.attrs) {
+        if(field instanceof Field && (field as Field).type !== FieldType.Const) {
+          const v = (field as Field).v;
+          v !== '_' && !boundVariables.includes(v) && unbound.add(v);
+        }
+      }
+    }
+    for (const v of unbound) {
+      issues.push({line, severity: 'error', code: 'unbound-variable', message: `Variable <${v}> in the RHS of production "${rhs}" is not bound in its LHS`});
+    }
+  }
+
+  for (const [rhs, productionSpecs] of productionsOfNames) {
+    for (const duplicate of productionSpecs.slice(1)) {
+      issues.push({line: lineOfProduction.get(duplicate) ?? 1, severity: 'error', code: 'duplicate-name', message: `Production name "${rhs}" is used ${productionSpecs.length} times; justifications of the productions would be confused`});
+    }
+  }
+
+  for (const [attr, line] of linesOfSchemaAttributes) {
+    if(!usedAttributes.has(attr)) {
+      issues.push({line, severity: 'warning', code: 'unused-schema', message: `Schema entry for attribute ${attr} is not used by any fact or condition`});
+    }
+  }
+}
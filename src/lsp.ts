@@ -0,0 +1,299 @@
+import {fileURLToPath, pathToFileURL} from 'url';
+import {Condition} from 'rete-next/index';
+import {DeclaredFuzzyVariable} from './fuzzy';
+import {analyzeSource, SourceAnalysis} from './lint';
+import {Reporter} from './reasoner';
+import {formatSchemaDirective} from './schema';
+import {constantOfField} from './strategies';
+
+// The parts of the Language Server Protocol (https://microsoft.github.io/language-server-protocol/) that are used
+
+type Position = {line: number, character: number}; // 0-based
+
+type Range = {start: Position, end: Position};
+
+type Message = {
+  jsonrpc: '2.0',
+  id?: number | string,
+  method?: string,
+  params?: unknown,
+}
+
+type TextDocumentIdentifier = {uri: string};
+
+type TextDocumentPositionParams = {textDocument: TextDocumentIdentifier, position: Position};
+
+// the params of the methods handled, as the protocol defines them
+type ParamsOfMethods = {
+  'initialize': unknown,
+  'shutdown': unknown,
+  'exit': unknown,
+  'textDocument/didOpen': {textDocument: {uri: string, text: string}},
+  'textDocument/didChange': {textDocument: TextDocumentIdentifier, contentChanges: {text: string}[]},
+  'textDocument/didClose': {textDocument: TextDocumentIdentifier},
+  'textDocument/completion': TextDocumentPositionParams,
+  'textDocument/hover': TextDocumentPositionParams,
+  'textDocument/definition': TextDocumentPositionParams,
+};
+
+type CompletionItem = {label: string, kind: number, detail?: string};
+
+const completionItemKinds = {property: 10, enumMember: 20};
+
+const diagnosticSeverities = {error: 1, warning: 2};
+
+const errorCodes = {methodNotFound: -32601, internalError: -32603};
+
+const textDocumentSyncFull = 1;
+
+// the standard output carries the protocol, so what the reasoner writes goes to the standard error
+const reporter: Reporter = {
+  log: message => console.error(message),
+  warn: message => console.error(message),
+  error: message => console.error(message),
+};
+
+type Document = {
+  uri: string,
+  text: string,
+  analysis?: SourceAnalysis, // computed when first needed after each change
+}
+
+/**
+ * Serves the Language Server Protocol over the standard input and output, for editors to show the problems of .rete
+ * files as they are edited, complete attributes and values, show the schema of attributes on hover, and go from a
+ * condition to the productions that assert what it matches. Requests are answered from the knowledge base read from
+ * the text of the document, without running it.
+ */
+export function startLanguageServer() {
+  const documents = new Map<string, Document>();
+  let shutdown = false;
+
+  const send = (message: object) => {
+    const json = JSON.stringify({jsonrpc: '2.0', ...message});
+    process.stdout.write(`Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`);
+  };
+
+  const analysisOf = (document: Document) => document.analysis ??= analyze(document);
+
+  const publishDiagnostics = (document: Document) => {
+    const lines = document.text.split('\n');
+    send({
+      method: 'textDocument/publishDiagnostics',
+      params: {
+        uri: document.uri,
+        diagnostics: analysisOf(document).issues.map(({line, severity, code, message}) => ({
+          range: lineRange(line - 1, lines),
+          severity: diagnosticSeverities[severity],
+          code,
+          source: 'rete',
+          message,
+        })),
+      },
+    });
+  };
+
+  const handlers: {[method in keyof ParamsOfMethods]: (params: ParamsOfMethods[method]) => unknown} = {
+    'initialize': () => ({
+      capabilities: {
+        textDocumentSync: textDocumentSyncFull,
+        completionProvider: {triggerCharacters: [' ', '(']},
+        hoverProvider: true,
+        definitionProvider: true,
+      },
+      serverInfo: {name: 'rete-reasoner'},
+    }),
+    'shutdown': () => {
+      shutdown = true;
+      return null;
+    },
+    'exit': () => process.exit(shutdown ? 0 : 1),
+    'textDocument/didOpen': ({textDocument: {uri, text}}) => {
+      const document = {uri, text};
+      documents.set(uri, document);
+      publishDiagnostics(document);
+    },
+    'textDocument/didChange': ({textDocument: {uri}, contentChanges}) => {
+      const document = {uri, text: contentChanges[contentChanges.length - 1].text};
+      documents.set(uri, document);
+      publishDiagnostics(document);
+    },
+    'textDocument/didClose': ({textDocument: {uri}}) => {
+      documents.delete(uri);
+      send({method: 'textDocument/publishDiagnostics', params: {uri, diagnostics: []}});
+    },
+    'textDocument/completion': ({textDocument: {uri}, position}) => {
+      const document = documents.get(uri);
+      return document ? completions(analysisOf(document), document.text.split('\n')[position.line] ?? '', position) : [];
+    },
+    'textDocument/hover': ({textDocument: {uri}, position}) => {
+      const document = documents.get(uri);
+      return document ? hover(analysisOf(document), document.text.split('\n')[position.line] ?? '', position) : null;
+    },
+    'textDocument/definition': ({textDocument: {uri}, position}) => {
+      const document = documents.get(uri);
+      return document ? definitions(analysisOf(document), document.text.split('\n'), position, uri) : [];
+    },
+  };
+
+  const receive = (message: Message) => {
+    const handler = message.method !== undefined && Object.hasOwn(handlers, message.method)
+      ? handlers[message.method as keyof ParamsOfMethods] as (params: unknown) => unknown // the client follows the protocol
+      : undefined;
+    if (!handler) {
+      // notifications that are not handled are ignored, as the protocol asks
+      message.id !== undefined && send({id: message.id, error: {code: errorCodes.methodNotFound, message: `Unknown method ${message.method}`}});
+      return;
+    }
+    try {
+      const result = handler(message.params);
+      message.id !== undefined && send({id: message.id, result: result ?? null});
+    } catch (e) {
+      message.id !== undefined
+        ? send({id: message.id, error: {code: errorCodes.internalError, message: (e as Error).message}})
+        : console.error(`${message.method} failed: ${(e as Error).message}`);
+    }
+  };
+
+  let buffer = Buffer.alloc(0);
+  process.stdin.on('end', () => process.exit(shutdown ? 0 : 1)); // the editor is gone
+  process.stdin.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) return;
+      const contentLength = Number(buffer.subarray(0, headerEnd).toString('ascii').match(/Content-Length: *(\d+)/i)?.[1]);
+      if (Number.isNaN(contentLength)) {
+        console.error('Message without Content-Length header, skipped');
+        buffer = buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      if (buffer.length < headerEnd + 4 + contentLength) return;
+      const json = buffer.subarray(headerEnd + 4, headerEnd + 4 + contentLength).toString('utf8');
+      buffer = buffer.subarray(headerEnd + 4 + contentLength);
+      try {
+        receive(JSON.parse(json));
+      } catch (e) {
+        console.error(`Malformed message: ${(e as Error).message}`);
+      }
+    }
+  });
+}
+
+/**
+ * The schema is checked when the document declares one, as it would report every attribute otherwise.
+ */
+function analyze({uri, text}: Document): SourceAnalysis {
+  const path = uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+  return analyzeSource(text, path, {schemaCheck: /^\s*#schema\s/m.test(text), reporter});
+}
+
+function lineRange(line: number, lines: string[]): Range {
+  return {start: {line, character: 0}, end: {line, character: (lines[line] ?? '').length}};
+}
+
+function fuzzyVariableOf({reasoner}: SourceAnalysis, attr: string) {
+  return (reasoner.rete.fuzzyVariables as DeclaredFuzzyVariable[]).find(fv => fv.name === attr);
+}
+
+/**
+ * The words of the clause `(id attr val)` that the position is in, up to the position, or undefined if it is not in
+ * one.
+ */
+function wordsBefore(line: string, {character}: Position): string[] | undefined {
+  const before = line.substring(0, character);
+  const open = before.lastIndexOf('(');
+  if (open < 0 || before.indexOf(')', open) >= 0) {
+    return undefined;
+  }
+  return before.substring(open + 1).trimStart().split(/\s+/);
+}
+
+/**
+ * Attributes in the place of attributes, and the values declared for the attribute in the place of values, from
+ * `#schema` and `#fuzzy var` directives.
+ */
+function completions(analysis: SourceAnalysis, line: string, position: Position): CompletionItem[] {
+  const words = wordsBefore(line, position);
+  const {patternsForAttributes} = analysis.reasoner;
+  if (words?.length === 2) {
+    return [
+      ...Object.entries(patternsForAttributes).map(([attr, patterns]) => ({
+        label: attr,
+        kind: completionItemKinds.property,
+        detail: patterns.find(p => p.description)?.description,
+      })),
+      ...(analysis.reasoner.rete.fuzzyVariables as DeclaredFuzzyVariable[])
+        .filter(fv => !patternsForAttributes[fv.name])
+        .map(fv => ({label: fv.name, kind: completionItemKinds.property, detail: `fuzzy variable of kind ${fv.fuzzyVariableKind.name}`})),
+    ];
+  }
+  if (words?.length === 3) {
+    const attr = words[1];
+    const values = new Set<string>();
+    for (const {val, valType} of patternsForAttributes[attr] ?? []) {
+      val && values.add(val);
+      valType?.type === 'enum' && valType.values.forEach(v => values.add(v));
+    }
+    fuzzyVariableOf(analysis, attr)?.fuzzyVariableKind.definitions.forEach(d => values.add(d.name));
+    return [...values].map(label => ({label, kind: completionItemKinds.enumMember}));
+  }
+  return [];
+}
+
+function wordAt(line: string, {character}: Position) {
+  const isWordCharacter = (c: string | undefined) => c !== undefined && !/[\s()]/.test(c);
+  let start = character;
+  let end = character;
+  while (isWordCharacter(line[start - 1])) start--;
+  while (isWordCharacter(line[end])) end++;
+  return start < end ? line.substring(start, end) : undefined;
+}
+
+/**
+ * The `#schema` directives of an attribute, or the kind and values of a fuzzy variable.
+ */
+function hover(analysis: SourceAnalysis, line: string, position: Position) {
+  const word = wordAt(line, position);
+  if (!word) {
+    return null;
+  }
+  const patterns = analysis.reasoner.patternsForAttributes[word];
+  const fuzzyVariable = fuzzyVariableOf(analysis, word);
+  const contents: string[] = [];
+  if (patterns) {
+    contents.push('```\n' + patterns.map(p => formatSchemaDirective(word, p)).join('\n') + '\n```');
+  }
+  if (fuzzyVariable) {
+    const {name, definitions} = fuzzyVariable.fuzzyVariableKind;
+    contents.push(`Fuzzy variable of kind \`${name}\`, with values ${definitions.map(d => `\`${d.name}\``).join(', ')}`);
+  }
+  return contents.length ? {contents: {kind: 'markdown', value: contents.join('\n\n')}} : null;
+}
+
+/**
+ * The productions whose asserts may match the clause `(id attr val)` that the position is in. Variables match
+ * anything. Those of included files are in their files, at the start of the line of their names.
+ */
+function definitions({reasoner, locationOfProduction}: SourceAnalysis, lines: string[], position: Position, uri: string) {
+  const line = lines[position.line] ?? '';
+  const open = line.lastIndexOf('(', position.character);
+  const close = line.indexOf(')', position.character);
+  if (open < 0 || close < 0) {
+    return [];
+  }
+  const fields = line.substring(open + 1, close).trim().split(/\s+/);
+  if (fields.length !== 3) {
+    return [];
+  }
+  const constants = fields.map(f => /^<.*>$/.test(f) ? undefined : f);
+  const mayMatch = (asserted: Condition) =>
+    constants.every((c, i) => c === undefined || [c, undefined].includes(constantOfField(asserted.attrs[i])));
+  return reasoner.productions
+    .filter(p => (p.rhsAssert ?? []).find(c => c instanceof Condition && mayMatch(c as Condition)))
+    .map(p => {
+      const {file, line} = locationOfProduction.get(p) ?? {line: 1};
+      const start = {line: line - 1, character: 0};
+      return file ? {uri: pathToFileURL(file).href, range: {start, end: start}} : {uri, range: lineRange(line - 1, lines)};
+    });
+}
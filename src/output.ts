@@ -0,0 +1,84 @@
+import {QueryResult} from './types';
+
+export type OutputFormat = 'text' | 'json' | 'csv' | 'table';
+
+export const outputFormats: OutputFormat[] = ['text', 'json', 'csv', 'table'];
+
+/**
+ * The query as written, or rebuilt from its conditions for queries saved before their text was kept.
+ */
+export function describeQuery({lhs, variables, text}: QueryResult) {
+  return text ?? `(${lhs.map(c => c.toString()).join(' ')}) -> ${variables.map(v => '<' + v + '>').join(', ')}`;
+}
+
+/**
+ * A query result as plain data, with the query as text.
+ */
+export function queryResultObject(queryResult: QueryResult) {
+  return {query: describeQuery(queryResult), variables: queryResult.variables, bindings: queryResult.bindings};
+}
+
+/**
+ * Formats query results:
+ * - text: "Yes."/"No." followed by one "i||variable:value" line per binding
+ * - json: one line per query, with a JSON object of the query, its variables and its bindings (JSON Lines)
+ * - csv: per query, a header line with the variables and a line per binding, with a blank line between queries
+ * - table: per query, the bindings in aligned columns under the variables
+ * The query is echoed before its results in the text and table formats, if asked; the JSON objects always have it.
+ */
+export function formatQueryResults(queryResults: QueryResult[], format: OutputFormat = 'text', echoQuery = false): string {
+  const formatted = queryResults.map(queryResult => {
+    const echo = echoQuery ? [`Running: ${describeQuery(queryResult)}`] : [];
+    switch (format) {
+      case 'text': return [...echo, ...textLines(queryResult)];
+      case 'json': return [JSON.stringify(queryResultObject(queryResult))];
+      case 'csv': return csvLines(queryResult);
+      case 'table': return [...echo, ...tableLines(queryResult)];
+    }
+  });
+  return formatted.map(lines => lines.join('\n')).join(format === 'csv' ? '\n\n' : '\n');
+}
+
+/**
+ * Prints query results, by default as "Yes."/"No." followed by one "i||variable:value" line per binding. See
+ * {@link formatQueryResults} for the other formats.
+ */
+export function printQueryResults(queryResults: QueryResult[], echoQuery = false, format: OutputFormat = 'text') {
+  queryResults.length && console.log(formatQueryResults(queryResults, format, echoQuery));
+}
+
+function textLines({bindings}: QueryResult): string[] {
+  const lines = [bindings.length ? 'Yes.' : 'No.'];
+  bindings.forEach((binding, i) => {
+    for (const [key, value] of Object.entries(binding)) {
+      lines.push(`${i}||${key}:${value}`);
+    }
+  });
+  return lines;
+}
+
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvLines({variables, bindings}: QueryResult): string[] {
+  return [
+    variables.map(csvField).join(','),
+    ...bindings.map(binding => variables.map(v => csvField(binding[v] ?? '')).join(',')),
+  ];
+}
+
+function tableLines({variables, bindings}: QueryResult): string[] {
+  if (!variables.length) {
+    return [bindings.length ? 'Yes.' : 'No.'];
+  }
+  const rows = bindings.map(binding => variables.map(v => binding[v] ?? ''));
+  const widths = variables.map((v, i) => Math.max(v.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ').trimEnd();
+  return [
+    line(variables),
+    widths.map(w => '-'.repeat(w)).join('-+-'),
+    ...rows.map(line),
+    `(${rows.length} row${rows.length === 1 ? '' : 's'})`,
+  ];
+}
@@ -0,0 +1,243 @@
+import {WME} from 'rete-next/index';
+import {Reasoner} from './reasoner';
+import {Justification} from './types';
+
+export type RdfFormat = 'turtle' | 'ntriples' | 'jsonld';
+
+export const rdfFormats: RdfFormat[] = ['turtle', 'ntriples', 'jsonld'];
+
+export type WMESelection = 'all' | 'axiomatic' | 'derived';
+
+export const wmeSelections: WMESelection[] = ['all', 'axiomatic', 'derived'];
+
+export type Provenance = 'none' | 'annotation' | 'graph';
+
+export const provenances: Provenance[] = ['none', 'annotation', 'graph'];
+
+export type RdfExportOptions = {
+  format: RdfFormat,
+  select?: WMESelection, // axiomatic: the WMEs with an axiomatic justification, derived: the others
+  provenance?: Provenance, // annotation: RDF-star annotations, graph: a named graph per justification
+}
+
+const xsd = 'http://www.w3.org/2001/XMLSchema#';
+const prov = 'http://www.w3.org/ns/prov#';
+const rete = 'urn:rete:';
+const wasGeneratedBy = `${prov}wasGeneratedBy`;
+
+type Term =
+  | {iri: string}
+  | {blank: string}
+  | {value: string, datatype: string};
+
+type JsonLdReference = {'@id': string};
+
+type JsonLdValue = (JsonLdReference | {'@value': string, '@type': string}) & {
+  '@annotation'?: {[property: string]: JsonLdReference[]},
+};
+
+type JsonLdNode = {[property: string]: string | JsonLdValue[]}; // '@id' and the properties of the subject
+
+type Statement = {
+  subject: Term,
+  predicate: Term,
+  object: Term,
+  sources: Term[], // what justifies it, for provenance
+}
+
+/**
+ * Writes the working memory as RDF: each WME is a triple. Symbols with a prefix declared by `#prefix` become IRIs
+ * in its namespace, symbols that are IRIs already stay as they are, and other symbols become IRIs in the namespace
+ * of the empty prefix, or in `urn:rete:` if it is not declared. Objects that are numbers or booleans become typed
+ * literals. The provenance of a triple is what justifies it: `urn:rete:axiom`, `urn:rete:defuzzification`, or the
+ * production, as `urn:rete:production:<name>`.
+ */
+export function exportWorkingMemory(reasoner: Reasoner, {format, select = 'all', provenance = 'none'}: RdfExportOptions): string {
+  const prefixes = reasoner.prefixes;
+  const statements: Statement[] = [];
+  for (const wme of reasoner.rete.working_memory) {
+    const justifications = reasoner.justifications.find(j => j.wme === wme)?.justifications ?? [];
+    const axiomatic = !!justifications.find(jj => 'axiomatic' in jj);
+    if ((select === 'axiomatic' && !axiomatic) || (select === 'derived' && axiomatic)) continue;
+    statements.push(statementOf(wme, justifications, prefixes));
+  }
+  const usedPrefixes = {
+    rete,
+    ...(provenance === 'none' ? {} : {prov}),
+    ...prefixes,
+  };
+  switch (format) {
+    case 'turtle': return toTurtle(statements, usedPrefixes, provenance);
+    case 'ntriples': return toNTriples(statements, provenance);
+    case 'jsonld': return toJsonLd(statements, usedPrefixes, provenance);
+  }
+}
+
+function statementOf(wme: WME, justifications: Justification[], prefixes: {[prefix: string]: string}): Statement {
+  const [subject, predicate, object] = wme.fields;
+  return {
+    subject: symbolTerm(subject, prefixes),
+    predicate: symbolTerm(predicate, prefixes),
+    object: literalTerm(object) ?? symbolTerm(object, prefixes),
+    sources: justifications.map(sourceTerm),
+  };
+}
+
+function symbolTerm(symbol: string, prefixes: {[prefix: string]: string}): Term {
+  const match = symbol.match(/^([\w-]*):(.*)$/);
+  if (match && prefixes[match[1]] !== undefined) {
+    return {iri: prefixes[match[1]] + match[2]};
+  }
+  if (symbol.startsWith('_:')) {
+    return {blank: symbol.substring(2)};
+  }
+  if (/^[a-zA-Z][\w+.-]*:/.test(symbol)) {
+    return {iri: symbol};
+  }
+  return {iri: (prefixes[''] ?? rete) + encodeURIComponent(symbol)};
+}
+
+function literalTerm(symbol: string): Term | undefined {
+  if (/^[+-]?\d+$/.test(symbol)) {
+    return {value: symbol, datatype: `${xsd}integer`};
+  }
+  if (/^[+-]?\d*\.\d+$/.test(symbol)) {
+    return {value: symbol, datatype: `${xsd}decimal`};
+  }
+  if (symbol === 'true' || symbol === 'false') {
+    return {value: symbol, datatype: `${xsd}boolean`};
+  }
+  return undefined;
+}
+
+function sourceTerm(justification: Justification): Term {
+  if ('axiomatic' in justification) {
+    return {iri: `${rete}axiom`};
+  }
+  if ('wmes' in justification) {
+    return {iri: `${rete}defuzzification`};
+  }
+  return {iri: `${rete}production:${encodeURIComponent(justification.prod)}`};
+}
+
+function iriRef(iri: string) {
+  return `<${iri.replace(/[\x00-\x20<>"{}|^`\\]/g, c => encodeURIComponent(c))}>`;
+}
+
+function quote(s: string) {
+  return `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+}
+
+/**
+ * Formats a term as N-Triples do, or compacted with the prefixes given, as Turtle does.
+ */
+function formatTerm(term: Term, prefixes?: {[prefix: string]: string}): string {
+  if ('blank' in term) {
+    return `_:${term.blank}`;
+  }
+  if ('value' in term) {
+    return prefixes ? term.value : `${quote(term.value)}^^${iriRef(term.datatype)}`;
+  }
+  return (prefixes && compact(term.iri, prefixes)) || iriRef(term.iri);
+}
+
+function compact(iri: string, prefixes: {[prefix: string]: string}) {
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    const local = iri.startsWith(namespace) ? iri.substring(namespace.length) : undefined;
+    if (local && /^[A-Za-z0-9_]([\w.-]*[\w-])?$/.test(local)) {
+      return `${prefix}:${local}`;
+    }
+  }
+  return undefined;
+}
+
+function sameTerm(t1: Term, t2: Term) {
+  return JSON.stringify(t1) === JSON.stringify(t2);
+}
+
+function groupBySource(statements: Statement[]) {
+  const groups: {source: Term, statements: Statement[]}[] = [];
+  for (const statement of statements) {
+    for (const source of statement.sources) {
+      const group = groups.find(g => sameTerm(g.source, source));
+      group ? group.statements.push(statement) : groups.push({source, statements: [statement]});
+    }
+  }
+  return groups;
+}
+
+/**
+ * Turtle, with the provenance as RDF-star annotations, or TriG, with the provenance as named graphs.
+ */
+function toTurtle(statements: Statement[], prefixes: {[prefix: string]: string}, provenance: Provenance): string {
+  const lines = Object.entries(prefixes).map(([prefix, namespace]) => `@prefix ${prefix}: ${iriRef(namespace)} .`);
+  lines.length && lines.push('');
+  const triple = ({subject, predicate, object}: Statement) =>
+    `${formatTerm(subject, prefixes)} ${formatTerm(predicate, prefixes)} ${formatTerm(object, prefixes)}`;
+  if (provenance === 'graph') {
+    for (const {source, statements: inGraph} of groupBySource(statements)) {
+      lines.push(`${formatTerm(source, prefixes)} {`, ...inGraph.map(s => `  ${triple(s)} .`), '}');
+    }
+  } else if (provenance === 'annotation') {
+    for (const s of statements) {
+      const sources = s.sources.map(source => formatTerm(source, prefixes)).join(', ');
+      lines.push(sources ? `${triple(s)} {| ${formatTerm({iri: wasGeneratedBy}, prefixes)} ${sources} |} .` : `${triple(s)} .`);
+    }
+  } else {
+    lines.push(...statements.map(s => `${triple(s)} .`));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * N-Triples, with the provenance as N-Triples-star statements about quoted triples, or N-Quads, with the provenance
+ * as named graphs.
+ */
+function toNTriples(statements: Statement[], provenance: Provenance): string {
+  const lines: string[] = [];
+  for (const s of statements) {
+    const triple = `${formatTerm(s.subject)} ${formatTerm(s.predicate)} ${formatTerm(s.object)}`;
+    if (provenance === 'graph') {
+      lines.push(...s.sources.map(source => `${triple} ${formatTerm(source)} .`));
+    } else {
+      lines.push(`${triple} .`);
+      if (provenance === 'annotation') {
+        lines.push(...s.sources.map(source => `<< ${triple} >> ${iriRef(wasGeneratedBy)} ${formatTerm(source)} .`));
+      }
+    }
+  }
+  return lines.join('\n') + (lines.length ? '\n' : '');
+}
+
+/**
+ * JSON-LD, with a node object per subject, the provenance as JSON-LD-star annotations, or as named graphs.
+ */
+function toJsonLd(statements: Statement[], prefixes: {[prefix: string]: string}, provenance: Provenance): string {
+  const context = {xsd, ...Object.fromEntries(Object.entries(prefixes).filter(([prefix]) => prefix))};
+  const id = (term: Term) => 'blank' in term ? `_:${term.blank}` : compact((term as {iri: string}).iri, context) ?? (term as {iri: string}).iri;
+
+  const nodesOf = (inNodes: Statement[]): JsonLdNode[] => {
+    const propertiesOfSubjects = new Map<string, {[property: string]: JsonLdValue[]}>();
+    for (const s of inNodes) {
+      const subject = id(s.subject);
+      const properties = propertiesOfSubjects.get(subject) ?? {};
+      propertiesOfSubjects.set(subject, properties);
+      const value: JsonLdValue = {
+        ...('value' in s.object
+          ? {'@value': s.object.value, '@type': compact(s.object.datatype, context) ?? s.object.datatype}
+          : {'@id': id(s.object)}),
+        ...(provenance === 'annotation' && s.sources.length
+          ? {'@annotation': {[id({iri: wasGeneratedBy})]: s.sources.map(source => ({'@id': id(source)}))}}
+          : {}),
+      };
+      const predicate = id(s.predicate);
+      properties[predicate] = [...properties[predicate] ?? [], value];
+    }
+    return [...propertiesOfSubjects].map(([subject, properties]) => ({'@id': subject, ...properties}));
+  };
+
+  const graph = provenance === 'graph'
+    ? groupBySource(statements).map(({source, statements: inGraph}) => ({'@id': id(source), '@graph': nodesOf(inGraph)}))
+    : nodesOf(statements);
+  return JSON.stringify({'@context': context, '@graph': graph}, null, 2) + '\n';
+}
@@ -0,0 +1,1690 @@
+import {createHash} from 'crypto';
+import {existsSync, readFileSync} from 'fs';
+import {dirname, resolve as resolvePath} from 'path';
+import {
+  Condition,
+  deserializeCondition,
+  evalVariablesInToken,
+  Field,
+  FieldType,
+  FuzzyVariable,
+  FuzzyWME,
+  GenericCondition,
+  Rete,
+  serializeCondition,
+  Token,
+  WME,
+  AggregateCondition,
+  NegativeCondition,
+  PositiveCondition,
+} from 'rete-next/index';
+import {ParseError, parseRete, ParseSuccess} from 'rete-next/productions0';
+import {
+  builtinHedges,
+  createFuzzySystem,
+  DeclaredFuzzyVariable,
+  defuzzificationMethods,
+  DefuzzificationMethod,
+  defuzzify,
+  FuzzyHedge,
+  FuzzyValDefinition,
+  FuzzyVariableKind,
+  MinMaxFuzzySystem,
+  NamedFuzzySystem,
+  parseFuzzyValDefinition,
+} from './fuzzy';
+import {
+  FactFormat,
+  factFormats,
+  FactImport,
+  FactMapping,
+  formatFactImport,
+  formatTriples,
+  parseFactMapping,
+  triplesOf,
+} from './facts';
+import {formatProduction} from './export';
+import {JustificationGraph, JustificationNode} from './graph';
+import {checkedSession, readSessionFile, sessionFormatVersion, writeSessionFile} from './session';
+import {
+  inferPatterns,
+  isFunctionalAttribute,
+  parseSlotType,
+  PatternsForAttribute,
+  PatternsForAttributes,
+  tryMatchPatternInCondition,
+  tryMatchPatternInWME,
+} from './schema';
+import {
+  conflictResolutionStrategies,
+  conflictResolutionStrategy,
+  findConflictResolutionStrategy,
+} from './strategies';
+import {
+  ConflictItem,
+  DefuzzificationJustification,
+  FiredProduction,
+  Justification,
+  Oscillation,
+  ProductionJustification,
+  ProductionSpec,
+  Query,
+  QueryResult,
+  Reconciliation,
+  RunResult,
+  SerializedJustification,
+  SerializedSession,
+  SessionSource,
+  SourceLocation,
+  WMEJustification,
+} from './types';
+
+/**
+ * Where a Reasoner writes its traces, warnings and errors, one message at a time.
+ */
+export type Reporter = {
+  log: (message: string) => void,
+  warn: (message: string) => void,
+  error: (message: string) => void,
+}
+
+export interface ReasonerOptions {
+  strategy?: string,
+  schemaCheck?: boolean,
+  strictSchemaCheck?: boolean, // implies schemaCheck
+  trace?: boolean,
+  reactive?: boolean,
+  reporter?: Reporter, // the console if missing
+}
+
+export type LoadOptions = {
+  readFiles?: boolean, // whether #include and #load may read files, true if missing
+}
+
+export type LoadResult = {
+  changed: boolean,
+  queryResults: QueryResult[], // of the queries met while loading, in order
+  factImports: FactImport[], // of the #load directives met while loading, in order
+}
+
+const stratumDirective = '#stratum';
+const schemaCheckDirective = '#schemacheck';
+const schemaDirective = '#schema';
+const fuzzyDirective = '#fuzzy';
+const salienceDirective = '#salience';
+const weightDirective = '#weight';
+const includeDirective = '#include';
+const loadDirective = '#load';
+const prefixDirective = '#prefix';
+
+const MAX_CYCLES = 100;
+
+/**
+ * An error in source text read from a file, at a line of it.
+ */
+export class SourceError extends Error {
+  constructor(readonly file: string, readonly line: number, readonly reason: string) {
+    super(`${file}:${line}: ${reason}`);
+  }
+}
+
+/**
+ * A knowledge base: a Rete network with the productions, queries, schema and fuzzy configuration read into it,
+ * and the justifications the truth maintenance system keeps for every WME. Instances are independent of each other.
+ */
+export class Reasoner {
+  readonly rete = new Rete();
+  readonly productions: ProductionSpec[] = [];
+  strata: ProductionSpec[][] = [[]];
+  automaticStrata: ProductionSpec[][] | undefined;
+  currentStratum = 0;
+  currentAutomaticStratum = 0;
+  readonly queries: Query[] = [];
+  justifications: WMEJustification[] = [];
+  nonDeterministicFixpointPossible = false;
+  readonly patternsForAttributes: PatternsForAttributes = {};
+  schemaCheck: boolean;
+  strictSchemaCheck: boolean;
+  schemaViolations = 0; // facts, productions and RHS asserts refused by the strict schema check
+  fuzzySystem: NamedFuzzySystem | undefined;
+  readonly fuzzyVariableKinds: FuzzyVariableKind[] = [];
+  readonly fuzzyHedges: FuzzyHedge[] = [...builtinHedges];
+  defuzzificationMethod: DefuzzificationMethod = 'inverse-average';
+  readonly defuzzificationMethodsOfVariables: {[variable: string]: DefuzzificationMethod} = {};
+  conflictResolutionStrategy: conflictResolutionStrategy;
+  readonly reporter: Reporter;
+  source: SessionSource | undefined; // when loaded with loadSource
+  readonly prefixes: {[prefix: string]: string} = {}; // prefix -> namespace IRI, for exporting as RDF
+  readonly locationOfProduction = new Map<ProductionSpec, SourceLocation>(); // of the names of those read from source text
+
+  private stratumBeingRead = 0;
+  private salienceOfNextProduction: number | undefined;
+  private weightOfNextProduction: number | undefined;
+  private retractedDerivations = new Map<string, string[]>(); // WME.toString() -> productions that had asserted it
+  private filesBeingRead: string[] = []; // the including files first, for include cycle detection
+  private readFiles = true; // of the load in progress
+  private includedFiles: {path: string, hash: string}[] = [];
+
+  constructor(readonly options: ReasonerOptions = {}) {
+    this.reporter = options.reporter ?? console;
+    this.strictSchemaCheck = !!options.strictSchemaCheck;
+    this.schemaCheck = !!options.schemaCheck || this.strictSchemaCheck;
+    this.conflictResolutionStrategy = (options.strategy && findConflictResolutionStrategy(options.strategy))
+      || conflictResolutionStrategies[0];
+  }
+
+  /**
+   * Reads directives, asserts, productions and queries from source text, executing them as they are read.
+   * Throws on parse errors. Given the path of the file the text was read from, errors are {@link SourceError}s
+   * and `#include` resolves paths relative to it, instead of to the working directory. Text from untrusted sources
+   * is to be loaded without readFiles, so that its `#include` and `#load` directives are refused.
+   */
+  load(input: string, path?: string, {readFiles = true}: LoadOptions = {}): LoadResult {
+    const result: LoadResult = {changed: false, queryResults: [], factImports: []};
+    const readFilesBefore = this.readFiles;
+    this.readFiles = readFiles;
+    try {
+      this.loadInto(input, path && resolvePath(path), result);
+    } finally {
+      this.readFiles = readFilesBefore;
+    }
+    return result;
+  }
+
+  /**
+   * Loads the source text of the knowledge base, recording its hash, the files it includes and the axioms it
+   * asserts, so that a session saved later can be reconciled with the source if it changes. Meant for a fresh
+   * Reasoner.
+   */
+  loadSource(input: string, path?: string): LoadResult {
+    const result = this.load(input, path);
+    this.source = {
+      hash: hashSource(input),
+      axioms: this.axioms(),
+      productions: this.productions.map(p => p.production.rhs),
+      includes: [...this.includedFiles],
+    };
+    return result;
+  }
+
+  /**
+   * Asserts a WME with an axiomatic justification. Call {@link run} afterwards to compute the new stable state.
+   * Throws if the strict schema check refuses it.
+   */
+  assert(id: string, attr: string, val: string): WME {
+    const added = this.rete.add(id, attr, val);
+    if(added) {
+      if(this.schemaCheck && !this.checkWMEAgainstSchema(added) && this.strictSchemaCheck) {
+        this.rete.removeWME(added);
+        this.schemaViolations++;
+        throw new Error(`Refused non-conforming WME ${added.toString()}`);
+      }
+      this.justifications.push({wme: added, justifications: [{axiomatic: true}]});
+      return added;
+    }
+    const existing = this.rete.findWME(id, attr, val)!;
+    const wmeJustification = this.justifications.find(j => j.wme === existing);
+    if(!wmeJustification) {
+      this.justifications.push({wme: existing, justifications: [{axiomatic: true}]});
+    } else if(!wmeJustification.justifications.find(jj => 'axiomatic' in jj)) {
+      wmeJustification.justifications.push({axiomatic: true});
+    }
+    return existing;
+  }
+
+  /**
+   * Asserts the triples of CSV, JSON or N-Triples text (see {@link triplesOf}) as axioms, through the schema check
+   * like the asserts of source text. Returns how many facts were added, were already there or were refused. Call
+   * {@link run} afterwards to compute the new stable state. Throws on malformed input.
+   */
+  loadFacts(format: FactFormat, text: string, mapping: FactMapping = {}, path = format as string): FactImport {
+    const triples = triplesOf(format, text, mapping);
+    const factImport: FactImport = {path, added: 0, duplicates: 0, refused: 0};
+    if (triples.length) {
+      const reteParse = parseRete(formatTriples(triples));
+      if(!('specs' in reteParse)) {
+        throw new Error(`Cannot load ${path}: ${(reteParse as ParseError).error}`);
+      }
+      for (const {lhs} of (reteParse as ParseSuccess).specs) {
+        const {added, duplicates, refused} = this.assertConditions(lhs);
+        factImport.added += added;
+        factImport.duplicates += duplicates;
+        factImport.refused += refused;
+      }
+    }
+    this.options.trace && this.reporter.log(`Loaded ${formatFactImport(factImport)}`);
+    return factImport;
+  }
+
+  /**
+   * Retracts the axiomatic justification of a WME, removing it if no other justification remains.
+   * Call {@link run} afterwards to compute the new stable state.
+   */
+  retract(id: string, attr: string, val: string): boolean {
+    const found = this.rete.working_memory.find(w => w.fields[0] === id && w.fields[1] === attr && w.fields[2] === val);
+    if (!found) {
+      this.reporter.warn(`No WME found matching (${id} ${attr} ${val} )`);
+      return false;
+    }
+    return this.retractWMEandJustifications(found);
+  }
+
+  /**
+   * Runs queries given as source text, without recording them in the knowledge base. Throws on parse errors.
+   */
+  query(input: string): QueryResult[] {
+    const reteParse = parseRete(input);
+    if(!('specs' in reteParse)) {
+      throw new Error((reteParse as ParseError).error);
+    }
+    const {specs} = reteParse as ParseSuccess;
+    const clauses = clausesOf(input, specs.length);
+    return specs
+      .map(({lhs, variables}, i) => ({lhs, variables, text: clauses[i]?.text}))
+      .filter(({variables}) => !!variables)
+      .map(({lhs, variables, text}) => this.runQuery({lhs, variables: variables!, text}));
+  }
+
+  /**
+   * Runs the queries read from source text.
+   */
+  runQueries(): QueryResult[] {
+    this.options.trace && this.queries.length && this.reporter.log(`Running ${this.queries.length} ${this.queries.length === 1 ? 'query' : 'queries'}`);
+    return this.queries.map(query => this.runQuery(query));
+  }
+
+  /**
+   * Explains the justifications of a WME as a tree, or returns undefined if there is no such WME.
+   */
+  explain(id: string, attr: string, val: string): string | undefined {
+    const found = this.rete.findWME(id, attr, val);
+    if (!found) {
+      return undefined;
+    }
+    return beautifyExplanation(this.explainWME(found, '', []));
+  }
+
+  /**
+   * Builds the graph of justifications, for the whole working memory or only for what supports a single WME.
+   * Node ids follow the order of the justifications, so graphs of successive runs can be compared.
+   */
+  justificationGraph(root?: WME): JustificationGraph {
+    const graph: JustificationGraph = {nodes: [], edges: []};
+    const wmeNodes = new Map<WME, string>();
+    let justificationCount = 0;
+    const addNode = (node: Omit<JustificationNode, 'id'>, prefix: string): string => {
+      const id = `${prefix}${prefix === 'w' ? wmeNodes.size : justificationCount++}`;
+      graph.nodes.push({id, ...node});
+      return id;
+    };
+    const visit = (wme: WME): string => {
+      const existing = wmeNodes.get(wme);
+      if (existing) return existing;
+      const wmeNode = addNode({kind: 'wme', label: wme.toString(), μ: wme instanceof FuzzyWME ? wme.μ : undefined}, 'w');
+      wmeNodes.set(wme, wmeNode);
+      const foundJustification = this.justifications.find(j => j.wme === wme);
+      if (!foundJustification) {
+        const crispWME = wme instanceof FuzzyWME && this.rete.working_memory.find(w =>
+          !(w instanceof FuzzyWME) && w.fields[0] === wme.fields[0] && w.fields[1] === wme.fields[1]
+        );
+        if (crispWME) {
+          const node = addNode({kind: 'fuzzification', label: 'Fuzzification', μ: (wme as FuzzyWME).μ}, 'j');
+          graph.edges.push({from: visit(crispWME), to: node}, {from: node, to: wmeNode});
+        }
+        return wmeNode;
+      }
+      for (const jj of foundJustification.justifications) {
+        if ('axiomatic' in jj) {
+          const node = addNode({kind: 'axiomatic', label: 'Axiomatic'}, 'j');
+          graph.edges.push({from: node, to: wmeNode});
+        } else if ('wmes' in jj) {
+          const node = addNode({kind: 'defuzzification', label: 'Defuzzification'}, 'j');
+          graph.edges.push({from: node, to: wmeNode});
+          for (const w of (jj as DefuzzificationJustification).wmes) {
+            graph.edges.push({from: visit(w), to: node});
+          }
+        } else {
+          const pjj = jj as ProductionJustification;
+          const node = addNode({kind: 'production', label: pjj.prod, μ: this.tokenToMu(pjj.token, pjj.prod)}, 'j');
+          graph.edges.push({from: node, to: wmeNode});
+          for (const w of pjj.token.toArray().filter(w => !!w)) {
+            graph.edges.push({from: visit(w), to: node});
+          }
+        }
+      }
+      return wmeNode;
+    };
+    if (root) {
+      visit(root);
+    } else {
+      this.justifications.forEach(j => visit(j.wme));
+    }
+    return graph;
+  }
+
+  /**
+   * Proposes a schema from the working memory and the conditions of the productions and queries. Fuzzy
+   * variables are left out, as they are not checked against the schema.
+   */
+  inferSchema(maxEnumeratedValues?: number): PatternsForAttributes {
+    const conditions = [
+      ...this.productions.flatMap(p => [...p.production.lhs as GenericCondition[], ...(p.rhsAssert || [])]),
+      ...this.queries.flatMap(q => q.lhs),
+    ];
+    return inferPatterns(this.rete.working_memory, conditions, attr => !!this.rete.getFuzzyVariable(attr), maxEnumeratedValues);
+  }
+
+  /**
+   * Explains why a WME is not in the working memory: for every production that could assert it, how far its
+   * conditions match and which condition fails.
+   */
+  whyNot(id: string, attr: string, val: string): string {
+    const fields = [id, attr, val];
+    const wmeString = `(${fields.join(' ')})`;
+    if (this.rete.findWME(id, attr, val)) {
+      return `${wmeString} is in the working memory, use "explain" to see why\n`;
+    }
+    let ret = `${wmeString} is not in the working memory\n`;
+    const retractedBy = this.retractedDerivations.get(wmeString);
+    let candidates = 0;
+    for (const productionSpec of this.productions) {
+      for (const asserted of (productionSpec.rhsAssert || []).filter(c => c instanceof Condition) as Condition[]) {
+        const required = bindingsToProduce(asserted, fields);
+        if (!required) continue;
+        candidates++;
+        const rhs = productionSpec.production.rhs;
+        ret += `[${rhs}] could assert it through ${asserted.toString()}${describeBindings(required)}\n`;
+        const lhs = productionSpec.production.lhs as GenericCondition[];
+        let matched = 0;
+        let example: {[variable: string]: string} = {};
+        while (matched < lhs.length) {
+          const prefix = lhs.slice(0, matched + 1);
+          const variables = variablesOfConditions(prefix);
+          const bindings = this.rete.query(prefix, variables)
+            .filter(b => Object.entries(required).every(([v, value]) => !(v in b) || b[v] === value));
+          if (!bindings.length) break;
+          example = bindings[0];
+          matched++;
+        }
+        for (let i = 0; i < lhs.length; i++) {
+          const linePrefix = (i < lhs.length - 1) ? ' ├' : ' └';
+          const cond = lhs[i];
+          if (i < matched) {
+            ret += `${linePrefix}${cond.toString()} matched\n`;
+          } else if (i === matched) {
+            if ('negativeConditions' in cond) { //instanceof does not work!
+              const blocking = this.rete.working_memory.filter(w =>
+                negatedConditions([cond]).find(nc => conditionMatchesWME(nc, w, {...example, ...required})));
+              ret += `${linePrefix}${cond.toString()} failed: negated condition blocked by ${blocking.map(w => w.toString()).join(', ') || 'a matching WME'}\n`;
+            } else {
+              ret += `${linePrefix}${cond.toString()} failed: no match\n`;
+            }
+          } else {
+            ret += `${linePrefix}${cond.toString()} not tried\n`;
+          }
+        }
+        ret += `  Deepest partial match: ${matched} of ${lhs.length} conditions${describeBindings(example)}\n`;
+        if (retractedBy?.includes(rhs)) {
+          ret += `  It fired and asserted ${wmeString}, which was later retracted\n`;
+        } else if (matched === lhs.length) {
+          ret += `  All conditions match, but it has not fired yet\n`;
+        }
+      }
+    }
+    if (!candidates) {
+      ret += `No production asserts a matching WME\n`;
+    }
+    return ret;
+  }
+
+  /**
+   * Runs the knowledge base until it converges into a stable state. The run stops without converging if the
+   * knowledge base returns to a state it has already been in (an oscillation of the truth maintenance system),
+   * or if a maximum number of cycles is reached.
+   */
+  run(): RunResult {
+    // facts asserted or retracted since the last run may concern any stratum
+    this.currentStratum = 0;
+    this.currentAutomaticStratum = 0;
+    this.runDefuzzification();
+    let cycle = 1;
+    const firings: FiredProduction[] = [];
+    const cycleOfState = new Map<string, number>(); // state signature -> index into firings
+    do {
+      this.options.trace && this.reporter.log(`### Cycle ${cycle}`);
+      const signature = this.stateSignature();
+      const firstSeen = cycleOfState.get(signature);
+      if (firstSeen !== undefined) {
+        const loop = firings.slice(firstSeen);
+        if (loop.find(f => f.added.length || f.removed.length)) {
+          const oscillation = this.diagnoseOscillation(loop);
+          reportOscillation(oscillation, this.reporter);
+          return {converged: false, cycles: cycle - 1, oscillation};
+        }
+      }
+      cycleOfState.set(signature, firings.length);
+      const conflicts = this.findConflictSet();
+      if (conflicts.length === 0) {
+        this.options.trace && this.reporter.log('No more productions');
+        return {converged: true, cycles: cycle - 1};
+      }
+      const conflictItem = this.conflictResolutionStrategy.fnc(conflicts, this);
+      if (!conflictItem) {
+        this.options.trace && this.reporter.log('No more productions');
+        return {converged: true, cycles: cycle - 1};
+      }
+      const fired: FiredProduction = {productionSpec: conflictItem.productionSpec, added: [], removed: []};
+      firings.push(fired);
+      let production = conflictItem.productionSpec.production;
+      this.options.trace && this.reporter.log(`Firing production "${production.rhs}"`);
+      let [tokensToAdd, tokensToRemove] = production.willFire();
+      if (!this.options.reactive) {
+        for (const token of tokensToRemove) {
+          const foundJustifications = this.justifications
+            .filter(j => j.justifications
+              .filter(jj => 'prod' in jj).map(jj => jj as ProductionJustification)
+              .find(jj => jj.prod === production.rhs && jj.token === token));
+          for (const foundJustification of foundJustifications) {
+            foundJustification.justifications = foundJustification
+              .justifications
+              .filter(jj => 'prod' in jj).map(jj => jj as ProductionJustification)
+              .filter(jj => jj.prod === production.rhs && jj.token !== token);
+            if (foundJustification.justifications.length === 0) {
+              this.options.trace && this.reporter.log(`No justifications left, will be removed: ${foundJustification.wme.toString()}`);
+              this.rete.removeWME(foundJustification.wme);
+              this.retractedDerivations.set(foundJustification.wme.toString(), [production.rhs]);
+              fired.removed.push(foundJustification.wme);
+            }
+          }
+        }
+      }
+      this.justifications = this.justifications.filter(j => j.justifications.length);
+      if (fired.removed.length) {
+        fired.removed.push(...this.removeUnfoundedWMEs());
+      }
+      if (conflictItem.productionSpec.rhsAssert) {
+        for (const token of tokensToAdd) {
+          const variablesInToken = evalVariablesInToken(
+            Object.keys(production.locationsOfAllVariablesInConditions),
+            production.locationsOfAllVariablesInConditions,
+            token
+          );
+          let mu: number | undefined = this.tokenToMu(token, production.rhs);
+          let [wmesAdded, wmesExisting] = this.rete.addWMEsFromConditions(conflictItem.productionSpec.rhsAssert, variablesInToken, mu);
+          if (this.strictSchemaCheck) {
+            wmesAdded = wmesAdded.filter(wme => {
+              if (this.checkWMEAgainstSchema(wme)) return true;
+              this.rete.removeWME(wme);
+              this.schemaViolations++;
+              this.reporter.error(`Blocked non-conforming WME ${wme.toString()} asserted by production "${production.rhs}"`);
+              return false;
+            });
+          }
+          fired.added.push(...wmesAdded);
+          for (const wme of wmesAdded) {
+            if (!this.options.reactive) {
+              this.justifications.push({
+                wme,
+                justifications: [{
+                  prod: production.rhs,
+                  token,
+                }]
+              })
+            } else {
+              this.justifications.push({wme, justifications: [{axiomatic: true}]});
+            }
+          }
+          this.options.trace && wmesAdded.length && this.reporter.log(`Added ${wmesAdded.map(w => w.toString()).join()}`);
+          for (const wme of wmesExisting) {
+            if (!this.options.reactive) {
+              let wmeJustification = this.justifications.find(j => j.wme === wme);
+              if (wmeJustification) {
+                wmeJustification.justifications.push({
+                  prod: production.rhs,
+                  token,
+                });
+                if (this.fuzzySystem && wme instanceof FuzzyWME) {
+                  this.propagateMu(wme);
+                }
+              }
+            } else if (this.retractWMEandJustifications(wme)) {
+              fired.removed.push(wme);
+            }
+          }
+          if(this.options.trace) {
+            if (!this.options.reactive) {
+              wmesExisting.length && this.reporter.log(`Added justifications for ${wmesExisting.map(w => w.toString()).join()}`);
+            }
+          }
+          this.runDefuzzification();
+        }
+      }
+
+    } while (cycle++ <= MAX_CYCLES);
+    this.reporter.warn(`Did not converge after ${MAX_CYCLES} cycles`);
+    return {converged: false, cycles: MAX_CYCLES};
+  }
+
+  /**
+   * Logs the WMEs of the working memory with their justifications, through the reporter.
+   */
+  showKnowledgeBase() {
+    if (this.justifications.length) {
+      this.reporter.log(`The working memory consists of ${this.justifications.length} WMEs`);
+      for (const {wme, justifications: j} of this.justifications) {
+        let jStrings = [];
+        for (const justification of j) {
+          if ('prod' in justification) {
+            const productionJustification = justification as ProductionJustification;
+            jStrings.push(`[${productionJustification.prod}:${productionJustification.token.toString()}]`);
+          } else if('wmes' in justification) {
+            const defuzzificationJustification = justification as DefuzzificationJustification;
+            jStrings.push(`[Defuzzification of:${defuzzificationJustification.wmes.map(w => w.toString()).join()}]`);
+          } else {
+            jStrings.push('[Axiomatic]');
+          }
+        }
+        this.reporter.log(`${wme.toString()}: ${jStrings.join(',')}`);
+      }
+    }
+  }
+
+  serialize(): SerializedSession {
+    return {
+      version: sessionFormatVersion,
+      network: this.rete.exportNetwork(),
+      source: this.source,
+      productionNames: this.productions.map(p => p.production.rhs),
+      justifications: this.justifications.map(j => ({
+        wme: j.wme.toString(),
+        justifications: j.justifications.map(serializeJustification),
+      })),
+      rhsAsserts: this.productions.map(p => p.rhsAssert ? p.rhsAssert.map(serializeCondition) : null),
+      saliences: this.productions.map(p => p.salience),
+      weights: this.productions.map(p => p.weight ?? null),
+      strata: this.strata.map(stratum => stratum.map(ps => this.productions.indexOf(ps))),
+      queries: this.queries.map(q => ({lhs: q.lhs.map(serializeCondition), variables: q.variables, text: q.text})),
+      patternsForAttributes: this.patternsForAttributes,
+      schemaCheck: this.schemaCheck,
+      strictSchemaCheck: this.strictSchemaCheck,
+      fuzzyVariableKinds: this.fuzzyVariableKinds,
+      fuzzyHedges: this.fuzzyHedges,
+      fuzzyVariableRegistrations: (this.rete.fuzzyVariables as DeclaredFuzzyVariable[])
+        .map(fv => ({name: fv.name, kind: fv.fuzzyVariableKind})),
+      fuzzySystem: this.fuzzySystem && {name: this.fuzzySystem.name, parameters: this.fuzzySystem.parameters},
+      nonDeterministicFixpointPossible: this.nonDeterministicFixpointPossible,
+      prefixes: this.prefixes,
+      defuzzification: {
+        method: this.defuzzificationMethod,
+        methodsOfVariables: this.defuzzificationMethodsOfVariables,
+      },
+    };
+  }
+
+  /**
+   * Restores a serialized session, of the current or an earlier version. Throws if the session is invalid, or if
+   * its justifications refer to WMEs, tokens or productions that are not in its network. Meant for a fresh
+   * Reasoner, into which nothing has been loaded.
+   */
+  deserialize(serializedSession: SerializedSession) {
+    const session = checkedSession(serializedSession);
+    this.fuzzyVariableKinds.push(...session.fuzzyVariableKinds);
+    if (session.fuzzyHedges) {
+      this.fuzzyHedges.splice(0, this.fuzzyHedges.length, ...session.fuzzyHedges);
+    }
+    for (const reg of session.fuzzyVariableRegistrations) {
+      this.rete.addFuzzyVariable(new DeclaredFuzzyVariable(reg.name, reg.kind, this.fuzzyHedges));
+    }
+    if (session.fuzzySystem) {
+      const {name, parameters} = session.fuzzySystem;
+      const fuzzySystem = createFuzzySystem(name, parameters);
+      if (typeof fuzzySystem === 'string') {
+        throw new Error(fuzzySystem);
+      }
+      this.fuzzySystem = fuzzySystem;
+    }
+
+    this.rete.restoreNetwork(session.network); // structure + content, no WME replay
+    if (this.rete.productions.length !== session.rhsAsserts.length) {
+      throw new Error(`Inconsistent session: the network has ${this.rete.productions.length} productions, but ${session.rhsAsserts.length} were saved`);
+    }
+
+    for (let i = 0; i < this.rete.productions.length; i++) {
+      this.productions.push({
+        production: this.rete.productions[i],
+        rhsAssert: session.rhsAsserts[i] ? session.rhsAsserts[i]!.map(deserializeCondition) : undefined,
+        salience: session.saliences?.[i] ?? 0,
+        weight: session.weights?.[i] ?? undefined,
+      });
+    }
+    this.strata = session.strata.map(idxArr => idxArr.map(i => this.productions[i]));
+    this.stratumBeingRead = this.strata.length - 1;
+    this.queries.push(...session.queries.map(q => ({lhs: q.lhs.map(deserializeCondition), variables: q.variables, text: q.text})));
+    Object.assign(this.patternsForAttributes, session.patternsForAttributes);
+    // the options ask for a check whatever the session had
+    this.strictSchemaCheck = !!this.options.strictSchemaCheck || !!session.strictSchemaCheck;
+    this.schemaCheck = !!this.options.schemaCheck || this.strictSchemaCheck || session.schemaCheck;
+    this.nonDeterministicFixpointPossible = session.nonDeterministicFixpointPossible;
+    Object.assign(this.prefixes, session.prefixes);
+    if (session.defuzzification) {
+      this.defuzzificationMethod = session.defuzzification.method;
+      Object.assign(this.defuzzificationMethodsOfVariables, session.defuzzification.methodsOfVariables);
+    }
+
+    const errors: string[] = [];
+    this.justifications = session.justifications.map(sj => {
+      const wme = this.rete.working_memory.find(w => w.toString() === sj.wme);
+      wme || errors.push(`WME ${sj.wme} is justified, but is not in the working memory`);
+      return {
+        wme: wme!,
+        justifications: sj.justifications.map(sjj => this.deserializeJustification(sjj, sj.wme, errors)!),
+      };
+    });
+    if (errors.length) {
+      throw new Error(`Inconsistent session:\n${errors.map(e => `  ${e}`).join('\n')}`);
+    }
+    this.source = session.source;
+  }
+
+  /**
+   * Restores a serialized session, saved from a source text that may have changed since. If neither it nor the
+   * files it includes have changed, this is the same as {@link deserialize}. Otherwise, the knowledge base is loaded
+   * from the current source instead, and the axioms asserted or retracted and the productions added after the source
+   * had been loaded are carried over. Returns what was carried over, or undefined if the source has not changed.
+   * Meant for a fresh Reasoner.
+   */
+  reconcile(serializedSession: SerializedSession, input: string, path?: string): Reconciliation | undefined {
+    const session = checkedSession(serializedSession);
+    if (!isStale(session, input)) {
+      this.deserialize(session);
+      return undefined;
+    }
+    this.loadSource(input, path);
+    const current = this.serialize();
+    const sessionNames = session.productionNames ?? [];
+    const currentNames = current.productionNames!;
+    // sessions saved before the names of the productions of the source were recorded have all theirs from the source
+    const sourceNames = session.source?.productions ?? sessionNames;
+    const reconciliation: Reconciliation = {
+      productionsAdded: currentNames.filter(n => !sessionNames.includes(n)),
+      productionsRemoved: sessionNames.filter(n => sourceNames.includes(n) && !currentNames.includes(n)),
+      productionsKept: [],
+      directivesChanged: [],
+      assertsKept: [],
+      retractionsKept: [],
+    };
+
+    const common = (names: string[]) => names.filter(n => sessionNames.includes(n) && currentNames.includes(n));
+    const directiveSettings: [string, (s: SerializedSession) => unknown][] = [
+      ['#schema', s => s.patternsForAttributes],
+      ['#schemacheck', s => [s.schemaCheck, !!s.strictSchemaCheck]],
+      ['#fuzzy', s => [s.fuzzyVariableKinds, s.fuzzyHedges, s.fuzzyVariableRegistrations, s.fuzzySystem, s.defuzzification]],
+      ['#stratum', s => s.strata.map(stratum => common(stratum.map(i => s.productionNames?.[i] ?? '')))],
+      ['#salience', s => common(s.productionNames ?? []).map(n => [n, s.saliences?.[s.productionNames!.indexOf(n)] ?? 0])],
+      ['#weight', s => common(s.productionNames ?? []).map(n => [n, s.weights?.[s.productionNames!.indexOf(n)] ?? null])],
+      ['#prefix', s => s.prefixes ?? {}],
+    ];
+    reconciliation.directivesChanged = directiveSettings
+      .filter(([, setting]) => JSON.stringify(setting(session)) !== JSON.stringify(setting(current)))
+      .map(([directive]) => directive);
+
+    const sessionOnlyNames = sessionNames.filter(n => !sourceNames.includes(n) && !currentNames.includes(n));
+    reconciliation.productionsKept = this.keepProductions(session, sessionOnlyNames);
+
+    const sourceAxioms = session.source?.axioms ?? [];
+    const sessionAxioms = session.justifications
+      .filter(sj => sj.justifications.find(sjj => sjj.kind === 'axiomatic'))
+      .map(sj => sj.wme);
+    const axioms = this.axioms();
+    for (const wme of sessionAxioms.filter(w => !sourceAxioms.includes(w) && !axioms.includes(w))) {
+      const fields = fieldsOfWME(wme);
+      if (!fields) continue;
+      try {
+        this.assert(...fields);
+        reconciliation.assertsKept.push(wme);
+      } catch (e) {
+        this.reporter.warn((e as Error).message);
+      }
+    }
+    for (const wme of sourceAxioms.filter(w => !sessionAxioms.includes(w) && axioms.includes(w))) {
+      const fields = fieldsOfWME(wme);
+      fields && this.retract(...fields) && reconciliation.retractionsKept.push(wme);
+    }
+    return reconciliation;
+  }
+
+  /**
+   * Saves the session to a file, atomically, and compressed with gzip if asked.
+   */
+  async save(path: string, compress = false) {
+    await writeSessionFile(path, this.serialize(), compress);
+    this.options.trace && this.reporter.log(`Session saved to ${path}`);
+  }
+
+  /**
+   * Restores a session saved to a file. Given the current source text, and the path it was read from, the session
+   * is reconciled with it (see {@link reconcile}), unless refuseStale is set, in which case a session whose source
+   * has changed is refused with an error.
+   */
+  async restore(
+    path: string,
+    {source, sourcePath, refuseStale = false}: {source?: string, sourcePath?: string, refuseStale?: boolean} = {},
+  ): Promise<Reconciliation | undefined> {
+    const session = await readSessionFile(path);
+    let reconciliation: Reconciliation | undefined;
+    if (source === undefined) {
+      this.deserialize(session);
+    } else if (refuseStale && isStale(session, source)) {
+      throw new Error(`Session ${path} is stale: its source has changed since it was saved`);
+    } else {
+      reconciliation = this.reconcile(session, source, sourcePath);
+    }
+    this.options.trace && this.reporter.log(`Session loaded from ${path}`);
+    return reconciliation;
+  }
+
+  private loadInto(input: string, path: string | undefined, result: LoadResult) {
+    path && this.filesBeingRead.push(path);
+    const inFile = (line: number, fnc: () => void) => {
+      try {
+        fnc();
+      } catch (e) {
+        throw path && !(e instanceof SourceError) ? new SourceError(path, line, (e as Error).message) : e;
+      }
+    };
+    try {
+      const lines = input.split('\n');
+      let clauses = '';
+      let clausesLine = 1;
+      lines.forEach((line, i) => {
+        const trimmedLine = line.trim();
+        if(trimmedLine.startsWith('#')) {
+          if(clauses.trim()) {
+            inFile(clausesLine, () => this.parseAndExecute(clauses, result, {file: path, line: clausesLine}));
+          }
+          clauses = '';
+          inFile(i + 1, () => this.executeDirective(trimmedLine, result));
+        } else {
+          if(!clauses.trim()) {
+            clauses = '';
+            clausesLine = i + 1;
+          }
+          clauses += line + '\n';
+        }
+      });
+      clauses = clauses.trim();
+      if(clauses) {
+        inFile(clausesLine, () => this.parseAndExecute(clauses, result, {file: path, line: clausesLine}));
+      }
+    } finally {
+      path && this.filesBeingRead.pop();
+    }
+  }
+
+  /**
+   * An included file starts in the stratum of the including file, and its #stratum directives move both forward,
+   * as if its text was in place of the directive. Its #schemacheck directives hold until its end.
+   */
+  private include(file: string, result: LoadResult) {
+    const path = this.resolveDirectivePath(file);
+    if (this.filesBeingRead.includes(path)) {
+      throw new Error(`Include cycle: ${[...this.filesBeingRead.slice(this.filesBeingRead.indexOf(path)), path].join(' -> ')}`);
+    }
+    if (this.includedFiles.find(f => f.path === path)) {
+      this.options.trace && this.reporter.log(`Already included ${path}`);
+      return;
+    }
+    if (!existsSync(path)) {
+      throw new Error(`Cannot include ${file}: ${path} does not exist`);
+    }
+    const input = readFileSync(path, 'utf8');
+    this.includedFiles.push({path, hash: hashSource(input)});
+    const {schemaCheck, strictSchemaCheck} = this;
+    try {
+      this.loadInto(input, path, result);
+    } finally {
+      this.schemaCheck = schemaCheck;
+      this.strictSchemaCheck = strictSchemaCheck;
+    }
+    this.options.trace && this.reporter.log(`Included ${path}`);
+  }
+
+  /**
+   * Adds productions of a session to the last stratum, as if they were run interactively again. Returns the names
+   * of those added.
+   */
+  private keepProductions(session: SerializedSession, names: string[]): string[] {
+    if (!names.length) {
+      return [];
+    }
+    const sessionReasoner = new Reasoner(this.options);
+    try {
+      sessionReasoner.deserialize(session);
+    } catch (e) {
+      this.reporter.warn(`Cannot keep the productions ${names.map(n => `"${n}"`).join(', ')}: ${(e as Error).message}`);
+      return [];
+    }
+    return names.filter(name => {
+      const productionSpec = sessionReasoner.productions.find(p => p.production.rhs === name)!;
+      const productionsBefore = this.productions.length;
+      try {
+        this.load(formatProduction(productionSpec).join('\n'));
+      } catch (e) {
+        this.reporter.warn(`Cannot keep production "${name}": ${(e as Error).message}`);
+      }
+      return this.productions.length > productionsBefore;
+    });
+  }
+
+  private axioms(): string[] {
+    return this.justifications
+      .filter(j => j.justifications.find(jj => 'axiomatic' in jj))
+      .map(j => j.wme.toString());
+  }
+
+  private stateSignature(): string {
+    return this.justifications
+      .map(({wme, justifications}) => `${wme.toString()}:${justifications.map(describeJustification).sort().join()}`)
+      .sort()
+      .join('\n');
+  }
+
+  private diagnoseOscillation(loop: FiredProduction[]): Oscillation {
+    const hints: string[] = [];
+    const loopProductions = loop.map(f => f.productionSpec).filter((p, i, ps) => ps.indexOf(p) === i);
+    const assertedInLoop = loop.flatMap(f => f.added.map(wme => ({wme, by: f.productionSpec})));
+    for (const productionSpec of loopProductions) {
+      for (const cond of negatedConditions(productionSpec.production.lhs)) {
+        const invalidating = assertedInLoop.find(({wme}) => conditionMatchesWME(cond, wme));
+        if (!invalidating) continue;
+        const asserter = invalidating.by === productionSpec ? 'its own RHS' : `"${invalidating.by.production.rhs}"`;
+        hints.push(`Negated condition ${cond.toString()} of "${productionSpec.production.rhs}" is invalidated by ${invalidating.wme.toString()}, asserted by ${asserter}`);
+      }
+    }
+    return {firings: loop, hints};
+  }
+
+  private runQuery(query: Query): QueryResult {
+    return {...query, bindings: this.rete.query(query.lhs, query.variables)};
+  }
+
+  /**
+   * Schema failures are warnings, or errors when the schema check is strict. Returns whether the WME conforms.
+   */
+  private checkWMEAgainstSchema(wme: WME): boolean {
+    const report = (message: string) => this.strictSchemaCheck ? this.reporter.error(message) : this.reporter.warn(message);
+    const attr = wme.fields[1];
+    const fuzzyVariable = this.rete.getFuzzyVariable(attr);
+    if(fuzzyVariable) {
+      if(!isCrispOrFuzzyValue(fuzzyVariable, wme.fields[2])) {
+        report(`${wme.fields[2]} is neither a crisp value nor a fuzzy value of fuzzy variable ${attr}`);
+        return false;
+      }
+      return true;
+    }
+    const patternsForAttribute = this.patternsForAttributes[attr];
+    if (!patternsForAttribute ) {
+      report(`No schema registered for attribute ${attr}`);
+      return false;
+    }
+    const isA = (id: string, cls: string) => !!this.rete.findWME(id, 'is-a', cls);
+    let ok = tryMatchPatternInWME(wme, patternsForAttribute, isA);
+    if (!ok) {
+      report(`No schema pattern matches WME ${wme.toString()}`);
+    }
+    if (isFunctionalAttribute(patternsForAttribute)) {
+      const wm = this.rete.working_memory;
+      const others = wm.slice(0, wm.indexOf(wme)).filter(w => w.fields[0] === wme.fields[0] && w.fields[1] === attr);
+      if (others.length) {
+        report(`Functional attribute ${attr} has more than one value for ${wme.fields[0]}: ${[...others, wme].map(w => w.fields[2]).join(', ')}`);
+        ok = false;
+      }
+    }
+    return ok;
+  }
+
+  /**
+   * Like {@link checkWMEAgainstSchema}, for the conditions of a production, a query or an RHS.
+   */
+  private checkConditionsAgainstSchema(lhs: GenericCondition[]): boolean {
+    const report = (message: string) => this.strictSchemaCheck ? this.reporter.error(message) : this.reporter.warn(message);
+    let ok = true;
+    for (const cond of lhs) {
+      if(cond instanceof Condition && cond.attrs[1] instanceof Field && (cond.attrs[1] as Field).type === FieldType.Const) {
+        const attr = (cond.attrs[1] as Field).v;
+        const fuzzyVariable = this.rete.getFuzzyVariable(attr);
+        if(fuzzyVariable) {
+          const val = cond.attrs[2];
+          if(val instanceof Field && (val as Field).type === FieldType.Const
+            && !isCrispOrFuzzyValue(fuzzyVariable, (val as Field).v)) {
+            report(`${(val as Field).v} is neither a crisp value nor a fuzzy value of fuzzy variable ${attr}`);
+            ok = false;
+          }
+          continue;
+        }
+        const patternsForAttribute = this.patternsForAttributes[attr];
+        if(!patternsForAttribute) {
+          report(`No schema registered for attribute ${attr}`);
+          ok = false;
+        } else if(!tryMatchPatternInCondition(cond, patternsForAttribute)) {
+          report(`No schema pattern matches condition ${cond.toString()}`);
+          ok = false;
+        }
+        if(cond instanceof AggregateCondition) {
+          ok = this.checkConditionsAgainstSchema(cond.innerConditions) && ok;
+        }
+      } else if('negativeConditions' in cond) { //instanceof does not work!
+        ok = this.checkConditionsAgainstSchema(cond.negativeConditions) && ok;
+      } else if('positiveConditions' in cond) { //instanceof does not work!
+        ok = this.checkConditionsAgainstSchema(cond.positiveConditions) && ok;
+      }
+    }
+    return ok;
+  }
+
+  /**
+   * The location is that of the start of the input.
+   */
+  private parseAndExecute(input: string, result: LoadResult, {file, line}: SourceLocation = {line: 1}) {
+    const reteParseProductions = parseRete(input);
+
+    if(!('specs' in reteParseProductions)) {
+      let parseError = reteParseProductions as ParseError;
+      throw new Error(parseError.error);
+    }
+    const parsedProductions = reteParseProductions as ParseSuccess;
+    const clauses = clausesOf(input, parsedProductions.specs.length);
+
+    for (const [i, {lhs, rhs, rhsAssert, variables}] of parsedProductions.specs.entries()) {
+      if (!rhs && !rhsAssert && !variables) { //Assert
+        this.assertConditions(lhs);
+        result.changed = true;
+      } else if (variables && !rhsAssert) { //Query
+        const query = {lhs, variables, text: clauses[i]?.text};
+        this.queries.push(query);
+        this.schemaCheck && this.checkConditionsAgainstSchema(lhs);
+        result.queryResults.push(this.runQuery(query));
+      } else if (rhs) {
+        const unsafeCondition = !!lhs.find(c => c instanceof AggregateCondition
+          || c instanceof NegativeCondition || c instanceof PositiveCondition
+        );
+        if (this.schemaCheck) {
+          const lhsConforms = this.checkConditionsAgainstSchema(lhs);
+          const rhsConforms = !rhsAssert || this.checkConditionsAgainstSchema(rhsAssert);
+          if (this.strictSchemaCheck && !(lhsConforms && rhsConforms)) {
+            this.salienceOfNextProduction = undefined;
+            this.weightOfNextProduction = undefined;
+            this.schemaViolations++;
+            this.reporter.error(`Refused non-conforming production "${rhs}"`);
+            continue;
+          }
+        }
+        this.nonDeterministicFixpointPossible ||= unsafeCondition;
+        let production = this.rete.addProduction(lhs, rhs);
+        const productionSpec = {
+          production,
+          rhsAssert,
+          salience: this.salienceOfNextProduction ?? 0,
+          weight: this.weightOfNextProduction,
+        };
+        this.salienceOfNextProduction = undefined;
+        this.weightOfNextProduction = undefined;
+        this.productions.push(productionSpec);
+        const nameOffset = clauses[i] ? input.indexOf(`"${rhs}"`, clauses[i].offset) : -1;
+        this.locationOfProduction.set(productionSpec, {
+          file,
+          line: line + (nameOffset < 0 ? 0 : input.substring(0, nameOffset).split('\n').length - 1),
+        });
+        this.strata[this.stratumBeingRead].push(productionSpec);
+        this.automaticStrata = undefined;
+        this.options.trace && this.reporter.log(`Added production: "${rhs}"`);
+        result.changed = true;
+      }
+    }
+  }
+
+  /**
+   * Adds the WMEs of the conditions of an assert clause, with axiomatic justifications, refusing those that do not
+   * conform to the schema in strict mode.
+   */
+  private assertConditions(lhs: GenericCondition[]) {
+    const [added, existing] = this.rete.addWMEsFromConditions(lhs);
+    this.options.trace && this.reporter.log(`Added ${added.length} WME${added.length === 1 ? '' : 's'}`);
+    let refused = 0;
+    for (const wme of added) {
+      if (this.schemaCheck && !this.checkWMEAgainstSchema(wme) && this.strictSchemaCheck) {
+        this.rete.removeWME(wme);
+        this.schemaViolations++;
+        refused++;
+        this.reporter.error(`Refused non-conforming WME ${wme.toString()}`);
+        continue;
+      }
+      this.justifications.push({wme, justifications: [{axiomatic: true}]});
+    }
+    return {added: added.length - refused, duplicates: existing.length, refused};
+  }
+
+  /**
+   * Resolves a path in a directive relative to the file being read, or the working directory.
+   */
+  private resolveDirectivePath(file: string) {
+    const includer = this.filesBeingRead[this.filesBeingRead.length - 1];
+    return resolvePath(includer ? dirname(includer) : '.', file);
+  }
+
+  private loadFactsDirective(dir: string, result: LoadResult) {
+    const [format, file, ...mappingWords] = dir.substring(loadDirective.length).trim().split(/\s+/);
+    const factFormat = factFormats.find(f => f === format);
+    const mapping = parseFactMapping(mappingWords);
+    if(!factFormat || !file || typeof mapping === 'string') {
+      this.reporter.warn(`Malformed directive ${dir}${typeof mapping === 'string' ? `: ${mapping}` : ''}`);
+      return;
+    }
+    const path = this.resolveDirectivePath(file);
+    if (!existsSync(path)) {
+      throw new Error(`Cannot load ${file}: ${path} does not exist`);
+    }
+    const text = readFileSync(path, 'utf8');
+    this.includedFiles.push({path, hash: hashSource(text)});
+    const factImport = this.loadFacts(factFormat, text, mapping, path);
+    result.factImports.push(factImport);
+    result.changed ||= factImport.added > 0;
+  }
+
+  private executeDirective(dir: string, result: LoadResult) {
+    if(!this.readFiles && (dir.startsWith(includeDirective) || dir.startsWith(loadDirective))) {
+      throw new Error(`Directive ${dir} reads a file, which is not allowed here`);
+    }
+    if(dir.startsWith(includeDirective)) {
+      const file = dir.substring(includeDirective.length).trim();
+      if(!file) {
+        this.reporter.warn(`Malformed directive ${dir}`);
+        return;
+      }
+      this.include(file, result);
+    } else if(dir.startsWith(loadDirective)) {
+      this.loadFactsDirective(dir, result);
+    } else if(dir.startsWith(prefixDirective)) {
+      const match = dir.substring(prefixDirective.length).trim().match(/^([\w-]*):\s+<?([^\s<>]+?)>?$/);
+      if(!match) {
+        this.reporter.warn(`Malformed directive ${dir}`);
+        return;
+      }
+      this.prefixes[match[1]] = match[2];
+    } else if(dir.startsWith(stratumDirective)) {
+      this.strata.push([]);
+      this.stratumBeingRead++;
+      this.options.trace && this.reporter.log(`Now reading stratum #${this.stratumBeingRead}`);
+    } else if(dir.startsWith(salienceDirective)) {
+      const salience = parseInt(dir.substring(salienceDirective.length).trim());
+      if(Number.isNaN(salience)) {
+        this.reporter.warn(`Malformed directive ${dir}`);
+        return;
+      }
+      this.salienceOfNextProduction = salience;
+    } else if(dir.startsWith(weightDirective)) {
+      const weight = parseFloat(dir.substring(weightDirective.length).trim());
+      if(Number.isNaN(weight) || weight < 0 || weight > 1) {
+        this.reporter.warn(`Malformed directive ${dir}`);
+        return;
+      }
+      this.weightOfNextProduction = weight;
+    } else if(dir.startsWith(schemaCheckDirective)) {
+      const s = dir.substring(schemaCheckDirective.length).trim();
+      if(!['on', 'off', 'strict'].includes(s)) {
+        this.reporter.warn(`Malformed directive ${dir}`);
+        return;
+      }
+      // the options ask for a check whatever the directives say
+      this.strictSchemaCheck = !!this.options.strictSchemaCheck || s === 'strict';
+      this.schemaCheck = !!this.options.schemaCheck || this.strictSchemaCheck || s !== 'off';
+    } else if(dir.startsWith(schemaDirective)) {
+      const patterns = dir.substring(schemaDirective.length).trim();
+      const strings = patterns.split(' ');
+      if(strings.length < 3 || strings[1] === '_') {
+        this.reporter.warn(`Malformed directive ${dir}`);
+        return;
+      }
+      const [id, attrOrFunctional, val] = strings;
+      const functional = attrOrFunctional.endsWith('!');
+      const attr = functional ? attrOrFunctional.slice(0, -1) : attrOrFunctional;
+      const pattern: PatternsForAttribute = {id: undefined, val: undefined, description: undefined};
+      for (const [slot, typeSlot, spec] of [['id', 'idType', id], ['val', 'valType', val]] as const) {
+        if(spec.startsWith(':')) {
+          const slotType = parseSlotType(spec);
+          if(typeof slotType === 'string') {
+            this.reporter.warn(`Malformed directive ${dir}: ${slotType}`);
+            return;
+          }
+          pattern[typeSlot] = slotType;
+        } else if(spec !== '_') {
+          pattern[slot] = spec;
+        }
+      }
+      if(functional) {
+        pattern.functional = true;
+      }
+      const description = strings.slice(3).join(' ');
+      pattern.description = description || undefined;
+      if(!this.patternsForAttributes[attr]) {
+        this.patternsForAttributes[attr] = [];
+      }
+      this.patternsForAttributes[attr].push(pattern);
+    } else if(dir.startsWith(fuzzyDirective)) {
+      this.fuzzyDirectiveHandling(dir.substring(fuzzyDirective.length).trim());
+    }
+  }
+
+  private fuzzyDirectiveHandling(prompt: string) {
+    if(prompt.toLowerCase().startsWith('system')) {
+      const [name, ...parameters] = prompt.substring(6).trim().toLowerCase().split(/\s+/);
+      const fuzzySystem = createFuzzySystem(name, parameters.map(parseFloat));
+      if(typeof fuzzySystem === 'string') {
+        this.reporter.warn(fuzzySystem);
+      } else {
+        this.fuzzySystem = fuzzySystem;
+      }
+    } else if(prompt.toLowerCase().startsWith('kind')) {
+      const defn = prompt.toLowerCase().substring('kind'.length).trim();
+      const fistSpace = defn.indexOf(' ');
+      if(fistSpace < 0) {
+        this.reporter.error(`Malformed fuzzy kind command ${prompt}`)
+        return;
+      }
+      const name = defn.substring(0, fistSpace).trim();
+      const vals = defn.substring(fistSpace).trim();
+      const valueDefinitions = vals.split(',').map(s => s.trim());
+      const definitions: FuzzyValDefinition[] = [];
+      let range: [number, number] | undefined;
+      for (const valueDefinition of valueDefinitions) {
+        if(valueDefinition.startsWith('range')) {
+          const [lo, hi] = valueDefinition.substring('range'.length).trim().split(/\s+/).map(parseFloat);
+          if(Number.isNaN(lo) || Number.isNaN(hi) || lo >= hi) {
+            this.reporter.error(`Invalid range of fuzzy kind ${name}: ${valueDefinition}`);
+            return;
+          }
+          range = [lo, hi];
+          continue;
+        }
+        const [valueName, def] = valueDefinition.split(':').map(s => s.trim());
+        if(!def) {
+          this.reporter.error(`Malformed fuzzy value definition ${valueDefinition}`);
+          return;
+        }
+        const definition = parseFuzzyValDefinition(valueName, def);
+        if(typeof definition === 'string') {
+          this.reporter.error(definition);
+          return;
+        }
+        definitions.push(definition);
+      }
+      this.fuzzyVariableKinds.push({
+        name,
+        definitions,
+        range,
+      });
+    } else if(prompt.toLowerCase().startsWith('hedge')) {
+      const [name, ...rest] = prompt.toLowerCase().substring('hedge'.length).trim().split(/\s+/);
+      const complement = rest[0] === 'not';
+      const exponent = parseFloat(complement ? rest[1] ?? '1' : rest[0]);
+      if(!name || Number.isNaN(exponent) || exponent <= 0) {
+        this.reporter.error(`Malformed fuzzy hedge command ${prompt}`);
+        return;
+      }
+      const hedge: FuzzyHedge = {name, exponent, complement};
+      const existing = this.fuzzyHedges.findIndex(h => h.name === name);
+      existing < 0 ? this.fuzzyHedges.push(hedge) : this.fuzzyHedges.splice(existing, 1, hedge);
+    } else if(prompt.toLowerCase().startsWith('defuzzify')) {
+      const [method, varname] = prompt.toLowerCase().substring('defuzzify'.length).trim().split(/\s+/);
+      if(!defuzzificationMethods.includes(method as DefuzzificationMethod)) {
+        this.reporter.error(`Unknown defuzzification method ${method}. Known methods: ${defuzzificationMethods.join(', ')}`);
+        return;
+      }
+      if(varname) {
+        this.defuzzificationMethodsOfVariables[varname] = method as DefuzzificationMethod;
+      } else {
+        this.defuzzificationMethod = method as DefuzzificationMethod;
+      }
+    } else if(prompt.toLowerCase().startsWith('var')) {
+      const varnamekind = prompt.toLowerCase().substring('var'.length).trim();
+      const [varname, kind] = varnamekind.split(' ');
+      const found = this.fuzzyVariableKinds.find(x => x.name === kind);
+      if(!found) {
+        this.reporter.error(`Undeclared fuzzy variable kind ${kind}`)
+        return;
+      }
+      const declaredFuzzyVariable = new DeclaredFuzzyVariable(varname, found, this.fuzzyHedges);
+      this.rete.addFuzzyVariable(declaredFuzzyVariable);
+    } else {
+      this.reporter.error(`Malformed fuzzy command ${prompt}`)
+    }
+  }
+
+  private findConflictSet() {
+    const conflicts: ConflictItem[] = [];
+    for (const productionSpec of this.productions) {
+      const tokensToAddOrRemove = productionSpec.production.canFire();
+      if (tokensToAddOrRemove[0].length + tokensToAddOrRemove[1].length) {
+        conflicts.push({
+          productionSpec,
+          tokensToAddOrRemove,
+        })
+      }
+    }
+    return conflicts;
+  }
+
+  private tokenToMu(token: Token, prod: string): number | undefined {
+    const fuzzyWMEs = token.toArray().filter(x => x instanceof FuzzyWME);
+    let mu: number | undefined = fuzzyWMEs.length && this.fuzzySystem ?
+      this.fuzzySystem.computeConjunction(...fuzzyWMEs.flatMap(w => ((w as FuzzyWME).μ))) :
+      undefined;
+    const weight = this.productions.find(p => p.production.rhs === prod)?.weight ?? 1;
+    return mu === undefined ? undefined : mu * weight;
+  }
+
+  private propagateMu(wme: FuzzyWME) {
+    const propagateMuAux = (remaining: FuzzyWME[], visited: FuzzyWME[]) => {
+      const [wme, ...rest] = remaining;
+      if(visited.includes(wme)) {
+        propagateMuAux(rest, visited);
+        return;
+      }
+      let wmeJustification = this.justifications.find(j => j.wme === wme);
+      if(!wmeJustification) {
+        this.reporter.warn(`No justification found for ${wme.toString()}`);
+        return;
+      }
+      const productionJustifications = wmeJustification.justifications
+        .filter(jj => 'prod' in jj)
+        .map(jj => jj as ProductionJustification);
+      const mus = productionJustifications
+        .map(jj => this.tokenToMu(jj.token, jj.prod))
+        .filter(n => n !== undefined)
+        .map(n => n as number)
+      ;
+      const cumulativeMu = this.fuzzySystem!.computeDisjunction(...mus);
+      wme.μ = cumulativeMu;
+      rest.length && propagateMuAux(rest, [wme, ...visited]);
+    };
+    propagateMuAux([wme], []);
+  }
+
+  private runDefuzzification() {
+    for (const fuzzyVariable of this.rete.fuzzyVariables) {
+      const attr = fuzzyVariable.getName();
+      if(!fuzzyVariable) continue;
+      const wmes = this.rete.working_memory.filter(w => w instanceof FuzzyWME && w.fields[1] === attr).map(w => w as FuzzyWME);
+      if(wmes.length) {
+        const emptyGroupedWmes: {[id:string]: FuzzyWME[]} = {};
+        function addToGroup(acc: {[id:string]: FuzzyWME[]}, cur: FuzzyWME): {[id:string]: FuzzyWME[]} {
+          const id = cur.fields[0].toString();
+          if(id in acc) {
+            return {
+              ...acc,
+              [id]: [cur, ...acc[id]],
+            }
+          } else {
+            return {
+              ...acc,
+              [id]: [cur],
+            }
+          }
+        }
+        const groupedWmes = wmes.reduce(addToGroup, emptyGroupedWmes);
+        for (const id in groupedWmes) {
+          const wmes = groupedWmes[id];
+          this.options.trace && this.reporter.log(`Defuzzifying ${wmes.map(w => w.toString()).join()}`);
+          const finalNumericValue = defuzzify(
+            this.defuzzificationMethodsOfVariables[attr] ?? this.defuzzificationMethod,
+            fuzzyVariable as DeclaredFuzzyVariable,
+            wmes.map(wme => [wme.fields[2].toString(), wme.μ]),
+            this.fuzzySystem instanceof MinMaxFuzzySystem ? 'clip' : 'scale',
+          );
+          if(finalNumericValue === undefined) {
+            this.options.trace && this.reporter.log(`Nothing to defuzzify for ${attr} of ${id}`);
+            continue;
+          }
+          const crispWmes = this.rete.working_memory.filter(w => w.fields[0] === id && w.fields[1] === attr && !Number.isNaN(parseFloat(w.fields[2])));
+          if(crispWmes.length > 1) {
+            this.reporter.warn(`More than one crisp WME found for fuzzy variable ${attr}`);
+          } else if(crispWmes.length) {
+            for (const crispWme of crispWmes) {
+              const crispVal = parseFloat(crispWme.fields[2]);
+              if (Math.abs(crispVal - finalNumericValue) >= 1e-6) {
+                this.retractWMEandJustifications(crispWme);
+              }
+            }
+          }
+          const added = this.rete.add(id, attr, finalNumericValue.toString());
+          if (added) {
+            this.options.trace && this.reporter.log(`Added ${added.toString()}`);
+            const wmeJustification: WMEJustification = {
+              wme: added,
+              justifications: [{
+                wmes,
+              }]
+            };
+            this.justifications.push(wmeJustification);
+          }
+        }
+      }
+    }
+  }
+
+  private retractWMEandJustifications(found: WME): boolean {
+    const foundJustification = this.justifications.find(j => j.wme === found);
+    if (!foundJustification) {
+      this.reporter.warn(`No justification found for (${found.toString()} )`);
+      return false;
+    } else {
+      const retractableJustification = foundJustification.justifications.find(jj => 'axiomatic' in jj || 'wmes' in jj);
+      if (!retractableJustification) {
+        this.reporter.warn(`WME does not have an axiomatic or defuzzification justification and cannot be retracted`);
+        return false;
+      }
+      foundJustification.justifications = foundJustification.justifications.filter(jj => jj !== retractableJustification);
+      if (foundJustification.justifications.length === 0) {
+        this.rete.removeWME(found);
+        this.options.trace && this.reporter.log(`Retracted ${found.toString()}`);
+        this.justifications = this.justifications.filter(j => j !== foundJustification);
+      }
+      this.removeUnfoundedWMEs();
+      return true;
+    }
+  }
+
+  /**
+   * Removes the WMEs that cannot be traced back to an axiomatic or defuzzification justification, such as WMEs
+   * of recursive productions that only justify each other. Returns the WMEs removed.
+   */
+  private removeUnfoundedWMEs(): WME[] {
+    const justificationOf = new Map(this.justifications.map(j => [j.wme, j]));
+    const founded = new Set<WME>();
+    const supports = (w: WME): boolean => {
+      if (!w || founded.has(w)) return true;
+      if (justificationOf.has(w)) return false;
+      if (w instanceof FuzzyWME) { // fuzzified from the crisp WME of the same fuzzy variable
+        const crispWME = this.rete.working_memory.find(c =>
+          !(c instanceof FuzzyWME) && c.fields[0] === w.fields[0] && c.fields[1] === w.fields[1]
+        );
+        return !crispWME || !justificationOf.has(crispWME) || founded.has(crispWME);
+      }
+      return true;
+    };
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const {wme, justifications} of this.justifications) {
+        if (founded.has(wme)) continue;
+        const foundedJustification = justifications.find(jj => !('prod' in jj)
+          || (jj as ProductionJustification).token.toArray().every(supports));
+        if (foundedJustification) {
+          founded.add(wme);
+          changed = true;
+        }
+      }
+    }
+    const unfounded = this.justifications.filter(j => !founded.has(j.wme));
+    for (const {wme, justifications} of unfounded) {
+      this.options.trace && this.reporter.log(`No well-founded justification left, will be removed: ${wme.toString()}`);
+      this.rete.removeWME(wme);
+      this.retractedDerivations.set(wme.toString(), justifications.map(jj => (jj as ProductionJustification).prod));
+    }
+    this.justifications = this.justifications.filter(j => founded.has(j.wme));
+    return unfounded.map(j => j.wme);
+  }
+
+  /**
+   * Returns undefined, after adding to errors, if the justification refers to what is not in the network.
+   */
+  private deserializeJustification(sjj: SerializedJustification, wme: string, errors: string[]): Justification | undefined {
+    if (sjj.kind === 'prod') {
+      const prodNode = this.rete.productions.find(p => p.rhs === sjj.prod);
+      if (!prodNode) {
+        errors.push(`WME ${wme} is justified by production "${sjj.prod}", which is not in the network`);
+        return undefined;
+      }
+      const token = prodNode.items.find(
+        t => t.toArray().map(w => w.toString()).join(' ') === sjj.tokenWmes.join(' ')
+      );
+      if (!token) {
+        errors.push(`WME ${wme} is justified by production "${sjj.prod}" with token ${sjj.tokenWmes.join(' ')}, which the production does not match`);
+        return undefined;
+      }
+      return {prod: sjj.prod, token};
+    }
+    if (sjj.kind === 'wmes') {
+      const wmes = sjj.wmes.map(s => this.rete.working_memory.find(w => w.toString() === s) as FuzzyWME);
+      sjj.wmes.filter((s, i) => !wmes[i]).forEach(s => errors.push(`WME ${wme} is defuzzified from ${s}, which is not in the working memory`));
+      return {wmes};
+    }
+    return {axiomatic: true};
+  }
+
+  private explainWME(found: WME, indentation: string, visited: WME[]): string {
+    if(visited.includes(found)) {
+      let ret = (indentation) + '(*)\n';
+      return ret;
+    }
+    const foundJustification = this.justifications.find(j => j.wme === found);
+    if (!foundJustification) {
+      const isFuzzified = this.rete.getFuzzyVariable(found.fields[1])?.isFuzzyValue(found.fields[2]);
+      if(isFuzzified === undefined) {
+        this.reporter.warn(`No justification found for (${found.toString()} )`);
+        return '';
+      } else {
+        const crispWME = this.rete.working_memory.find(w =>
+          !(w instanceof FuzzyWME) &&
+          w.fields[0] === found.fields[0] &&
+          w.fields[1] === found.fields[1]
+        );
+        if(!crispWME) {
+          this.reporter.warn(`No crisp WME found for (${found.toString()} )`);
+          return '';
+        }
+        const linePrefix = (indentation) + '└';
+        const line = linePrefix + `[Fuzzification of:]\n`;
+        const line2 = (indentation) + ` └${crispWME.toString()}]\n`;
+        const newVisited = [...visited, found];
+        const s = this.explainWME(crispWME, indentation + '   ', newVisited);
+        return line + line2 + s;
+      }
+    } else {
+      let ret = '';
+      const length = foundJustification.justifications.length;
+      for (let i = 0; i < length; i++){
+        const linePrefix = (indentation) + ((i < length - 1) ? '├' : '└');
+        const jj = foundJustification.justifications[i];
+        if ('axiomatic' in jj) {
+          const line = linePrefix + '[Axiomatic]\n';
+          ret += line;
+        } else if('wmes' in jj) {
+          const defuzzificationJustification = jj as DefuzzificationJustification;
+          const newVisited = [...visited, found];
+          ret += linePrefix + `[Defuzzification of:]\n`;
+          const lengthInner = defuzzificationJustification.wmes.length;
+          for (let iInner = 0; iInner < lengthInner; iInner++){
+            const linePrefixInner = (indentation) + ((iInner < lengthInner - 1) ? '  ├' : '  └');
+            const wme = defuzzificationJustification.wmes[iInner];
+            ret += linePrefixInner + wme.toString() + '\n';
+            const s = this.explainWME(wme, indentation + '    ', newVisited);
+            ret += s;
+          }
+        } else {
+          const pjj = jj as ProductionJustification;
+          const newVisited = [...visited, found];
+          ret += linePrefix + `[${pjj.prod}]\n`;
+          const lengthInner = pjj.token.toArray().length;
+          for (let iInner = 0; iInner < lengthInner; iInner++){
+            const linePrefixInner = (indentation) + ((iInner < lengthInner - 1) ? '  ├' : '  └');
+            const wme = pjj.token.toArray()[iInner];
+            ret += linePrefixInner + wme.toString() + '\n';
+            const s = this.explainWME(wme, indentation + '    ', newVisited);
+            ret += s;
+          }
+        }
+      }
+      return ret;
+    }
+  }
+}
+
+function hashSource(input: string) {
+  return createHash('sha256').update(input).digest('hex');
+}
+
+/**
+ * Whether the source of a session, or any of the files it included, has changed since the session was saved.
+ */
+function isStale({source}: SerializedSession, input: string) {
+  return source?.hash !== hashSource(input)
+    || !!(source.includes ?? []).find(({path, hash}) => !existsSync(path) || hashSource(readFileSync(path, 'utf8')) !== hash);
+}
+
+/**
+ * Splits source text into its clauses as written, one per top-level parenthesis, with where each starts, without
+ * counting parentheses in production names. Returns none unless there are as many as the parser found.
+ */
+function clausesOf(input: string, count: number): {text: string, offset: number}[] {
+  const clauses: {text: string, offset: number}[] = [];
+  let depth = 0;
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (c === '"') {
+      quoted = !quoted;
+    } else if (quoted) {
+      continue;
+    } else if (c === '(') {
+      depth === 0 && (start = i);
+      depth++;
+    } else if (c === ')' && depth > 0) {
+      depth--;
+      depth === 0 && clauses.push({text: input.substring(start, i + 1), offset: start});
+    }
+  }
+  return clauses.length === count ? clauses : [];
+}
+
+function fieldsOfWME(wme: string): [string, string, string] | undefined {
+  const match = wme.match(/^\((\S+) (\S+) (\S+)\)$/);
+  return match ? [match[1], match[2], match[3]] : undefined;
+}
+
+export function serializeJustification(j: Justification): SerializedJustification {
+  if ('prod' in j) return {kind: 'prod', prod: j.prod, tokenWmes: j.token.toArray().map(w => w.toString())};
+  if ('wmes' in j) return {kind: 'wmes', wmes: j.wmes.map(w => w.toString())};
+  return {kind: 'axiomatic'};
+}
+
+function isCrispOrFuzzyValue(fuzzyVariable: FuzzyVariable, val: string) {
+  return !Number.isNaN(parseFloat(val)) || fuzzyVariable.isFuzzyValue(val);
+}
+
+function describeJustification(j: Justification): string {
+  if ('prod' in j) return `[${j.prod}:${j.token.toString()}]`;
+  if ('wmes' in j) return `[${j.wmes.map(w => w.toString()).join()}]`;
+  return '[Axiomatic]';
+}
+
+function negatedConditions(lhs: GenericCondition[], negated = false): Condition[] {
+  const found: Condition[] = [];
+  for (const cond of lhs) {
+    if(cond instanceof AggregateCondition) {
+      found.push(...negatedConditions(cond.innerConditions, negated));
+    } else if(cond instanceof Condition) {
+      negated && found.push(cond);
+    } else if('negativeConditions' in cond) { //instanceof does not work!
+      found.push(...negatedConditions(cond.negativeConditions as GenericCondition[], true));
+    } else if('positiveConditions' in cond) { //instanceof does not work!
+      found.push(...negatedConditions(cond.positiveConditions as GenericCondition[], negated));
+    }
+  }
+  return found;
+}
+
+function conditionMatchesWME(cond: Condition, wme: WME, bindings: {[variable: string]: string} = {}): boolean {
+  for (let i = 0; i < 3; i++) {
+    const field = cond.attrs[i];
+    if(!(field instanceof Field)) continue;
+    const f = field as Field;
+    const expected = f.type === FieldType.Const ? f.v : bindings[f.v];
+    if(expected !== undefined && expected !== wme.fields[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function bindingsToProduce(asserted: Condition, fields: string[]): {[variable: string]: string} | undefined {
+  const bindings: {[variable: string]: string} = {};
+  for (let i = 0; i < 3; i++) {
+    const field = asserted.attrs[i];
+    if(!(field instanceof Field)) continue;
+    const f = field as Field;
+    if(f.type === FieldType.Const) {
+      if(f.v !== fields[i]) return undefined;
+    } else if(f.v in bindings && bindings[f.v] !== fields[i]) {
+      return undefined;
+    } else {
+      bindings[f.v] = fields[i];
+    }
+  }
+  return bindings;
+}
+
+function variablesOfConditions(lhs: GenericCondition[]): string[] {
+  const variables: string[] = [];
+  for (const cond of lhs) {
+    if(!(cond instanceof Condition) || cond instanceof AggregateCondition) continue;
+    for (const field of cond.attrs) {
+      if(field instanceof Field && (field as Field).type !== FieldType.Const) {
+        const v = (field as Field).v;
+        v !== '_' && !variables.includes(v) && variables.push(v);
+      }
+    }
+  }
+  return variables;
+}
+
+function describeBindings(bindings: {[variable: string]: string}): string {
+  const entries = Object.entries(bindings);
+  return entries.length ? ` with ${entries.map(([v, value]) => `<${v}>=${value}`).join(', ')}` : '';
+}
+
+function reportOscillation({firings, hints}: Oscillation, reporter: Reporter) {
+  reporter.warn(`Oscillation detected: the last ${firings.length} cycle${firings.length === 1 ? '' : 's'} returned the knowledge base to an earlier state`);
+  for (const {productionSpec, added, removed} of firings) {
+    const changes = [...added.map(w => `+${w.toString()}`), ...removed.map(w => `-${w.toString()}`)];
+    reporter.warn(`  "${productionSpec.production.rhs}" ${changes.join(' ') || '(no change)'}`);
+  }
+  for (const hint of hints) {
+    reporter.warn(`Hint: ${hint}`);
+  }
+}
+
+function beautifyExplanation(s: string) {
+  const lines = s.split('\n');
+  let lineLocations: number[] = [];
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+    const chars = line.split('');
+    for (let i1 = 0; i1 < chars.length; i1++){
+      const char = chars[i1];
+      if(char === '└') {
+        lineLocations.push(i1);
+      } else if(lineLocations.includes(i1)) {
+        if (char === ' ') {
+          chars[i1] = '│';
+        } else if(char !== '├') {
+          lineLocations = lineLocations.filter(x => x !== i1);
+          break;
+        }
+      }
+    }
+    lines[i] = chars.join('');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,263 @@
+import {AggregateCondition, Condition, Field, FieldType, GenericCondition, WME} from 'rete-next/index';
+
+export type SlotType =
+  { type: 'number', min?: number, max?: number } |
+  { type: 'string' } |
+  { type: 'enum', values: string[] } |
+  { type: 'ref', class: string };
+
+export type PatternsForAttribute = {
+  id: undefined | string,
+  val: undefined | string,
+  description: undefined | string,
+  idType?: SlotType,
+  valType?: SlotType,
+  functional?: boolean, // at most one value per id
+}
+
+export type PatternsForAttributes = {[attr:string]:PatternsForAttribute[]};
+
+/**
+ * Answers whether an id is declared, with `is-a`, to be of a class. Needed to check `:ref(class)` slots.
+ */
+export type IsA = (id: string, cls: string) => boolean;
+
+/**
+ * Parses a typed slot of a `#schema` directive: `:number`, `:number[lo,hi]` (either bound can be left out),
+ * `:string`, `:enum(a|b|...)` or `:ref(class)`. Returns an error message if malformed.
+ */
+export function parseSlotType(spec: string): SlotType | string {
+  let m: RegExpMatchArray | null;
+  if(spec === ':string') {
+    return {type: 'string'};
+  } else if(spec === ':number') {
+    return {type: 'number'};
+  } else if((m = spec.match(/^:number\[([^,\]]*),([^,\]]*)]$/))) {
+    const [min, max] = [m[1], m[2]].map(b => b.trim() === '' ? undefined : Number(b));
+    if(Number.isNaN(min) || Number.isNaN(max)) {
+      return `Malformed range in ${spec}`;
+    }
+    return {type: 'number', min, max};
+  } else if((m = spec.match(/^:enum\(([^)]+)\)$/))) {
+    return {type: 'enum', values: m[1].split('|')};
+  } else if((m = spec.match(/^:ref\(([^)]+)\)$/))) {
+    return {type: 'ref', class: m[1]};
+  }
+  return `Unknown slot type ${spec}`;
+}
+
+function slotMatches(value: string, literal: string | undefined, slotType: SlotType | undefined, isA?: IsA) {
+  if(literal && literal !== value) {
+    return false;
+  }
+  if(!slotType) {
+    return true;
+  }
+  const isNumber = value.trim() !== '' && !Number.isNaN(Number(value));
+  switch (slotType.type) {
+    case 'number':
+      return isNumber
+        && (slotType.min === undefined || Number(value) >= slotType.min)
+        && (slotType.max === undefined || Number(value) <= slotType.max);
+    case 'string':
+      return !isNumber;
+    case 'enum':
+      return slotType.values.includes(value);
+    case 'ref':
+      return !isA || isA(value, slotType.class);
+  }
+}
+
+export function tryMatchPatternInWME(wme: WME, patternsForAttribute: PatternsForAttribute[], isA?: IsA) {
+  for (const patternForAttribute of patternsForAttribute) {
+    const {id, val, idType, valType} = patternForAttribute;
+    if(slotMatches(wme.fields[0], id, idType, isA) && slotMatches(wme.fields[2], val, valType, isA)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Only constant fields are checked. `:ref(class)` slots are not, because the `is-a` facts they need might
+ * not have been asserted yet when a condition is read.
+ */
+export function tryMatchPatternInCondition(cond: Condition, patternsForAttribute: PatternsForAttribute[]) {
+  for (const patternForAttribute of patternsForAttribute) {
+    const {id, val, idType, valType} = patternForAttribute;
+    let okId = true;
+    let okVal = true;
+    if(cond.attrs[0] instanceof Field && (cond.attrs[0] as Field).type === FieldType.Const) {
+      const idPat = (cond.attrs[0] as Field).v;
+      okId = slotMatches(idPat, id, idType);
+    }
+    if(cond.attrs[2] instanceof Field && (cond.attrs[2] as Field).type === FieldType.Const) {
+      const valPat = (cond.attrs[2] as Field).v;
+      okVal = slotMatches(valPat, val, valType);
+    }
+    if(okId && okVal) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function isFunctionalAttribute(patternsForAttribute: PatternsForAttribute[]) {
+  return patternsForAttribute.some(p => p.functional);
+}
+
+export function describeSlotType(slotType: SlotType) {
+  switch (slotType.type) {
+    case 'number':
+      if(slotType.min !== undefined && slotType.max !== undefined) {
+        return `a number from ${slotType.min} to ${slotType.max}`;
+      } else if(slotType.min !== undefined) {
+        return `a number not less than ${slotType.min}`;
+      } else if(slotType.max !== undefined) {
+        return `a number not greater than ${slotType.max}`;
+      }
+      return 'a number';
+    case 'string':
+      return 'a non-numeric string';
+    case 'enum':
+      return `one of ${slotType.values.join(', ')}`;
+    case 'ref':
+      return `an id that is-a ${slotType.class}`;
+  }
+}
+
+function describeSlot(literal: string | undefined, slotType: SlotType | undefined) {
+  return literal ?? (slotType ? describeSlotType(slotType) : 'anything');
+}
+
+export function createSchemaDescription(patternsForAttributes: PatternsForAttributes) {
+  let schemaDescr = '';
+  for (let i = 0; i < Object.entries(patternsForAttributes).length; i++){
+    const [attribute, patterns] = (Object.entries(patternsForAttributes))[i];
+    let constraints: string;
+    const [first] = patterns;
+    if(patterns.length === 1 && !first.id && !first.val && !first.idType && !first.valType) {
+      constraints = `Unconstrained. ${first.description || ''}`;
+    } else if(patterns.length === 1 && !first.id && !first.val) {
+      constraints = '\n';
+      first.idType && (constraints += `The subject must be ${describeSlotType(first.idType)}. `);
+      first.valType && (constraints += `The object must be ${describeSlotType(first.valType)}. `);
+      constraints += first.description || '';
+    } else {
+      constraints = '\n';
+      if(first.id || first.idType) {
+        constraints += 'The subject can take values: ' + patterns.map(({id, idType, description}) => describeSlot(id, idType) + (description ? ` [_ ${attribute} _ meaning: ${description}]` : '')).join(',');
+      } else {
+        constraints += 'The object can take values: ' + patterns.map(({val, valType, description}) => describeSlot(val, valType) + (description ? ` [_ ${attribute} _ meaning: ${description}]` : '')).join(',');
+      }
+    }
+    if(isFunctionalAttribute(patterns)) {
+      constraints = `${constraints.trimEnd()} Each subject has at most one value for it.`;
+    }
+    const attributeDescription = `${i + 1}. **\`${attribute}\`**: ${constraints}
+ 
+`;
+    schemaDescr += attributeDescription;
+  }
+  return schemaDescr;
+}
+
+export function formatSlotType(slotType: SlotType) {
+  switch (slotType.type) {
+    case 'number':
+      return slotType.min === undefined && slotType.max === undefined ?
+        ':number' :
+        `:number[${slotType.min ?? ''},${slotType.max ?? ''}]`;
+    case 'string':
+      return ':string';
+    case 'enum':
+      return `:enum(${slotType.values.join('|')})`;
+    case 'ref':
+      return `:ref(${slotType.class})`;
+  }
+}
+
+/**
+ * The `#schema` directive that defines a pattern.
+ */
+export function formatSchemaDirective(attr: string, pattern: PatternsForAttribute) {
+  const slot = (literal: string | undefined, slotType: SlotType | undefined) =>
+    literal ?? (slotType ? formatSlotType(slotType) : '_');
+  const directive = `#schema ${slot(pattern.id, pattern.idType)} ${attr}${pattern.functional ? '!' : ''} ${slot(pattern.val, pattern.valType)}`;
+  return pattern.description ? `${directive} ${pattern.description}` : directive;
+}
+
+/**
+ * Proposes patterns for the attributes met in the WMEs and in the conditions given. The values of an attribute
+ * are enumerated when they are at most `maxEnumeratedValues`, an attribute whose values are all numbers gets a
+ * `:number` slot, and any other attribute an unconstrained one. Descriptions are placeholders to be filled in.
+ */
+export function inferPatterns(
+  wmes: WME[],
+  conditions: GenericCondition[],
+  skipAttribute: (attr: string) => boolean = () => false,
+  maxEnumeratedValues = 5,
+): PatternsForAttributes {
+  const valuesOfAttributes = new Map<string, Set<string>>();
+  const observe = (attr: string, val: string | undefined) => {
+    if(skipAttribute(attr)) return;
+    let values = valuesOfAttributes.get(attr);
+    if(!values) {
+      values = new Set();
+      valuesOfAttributes.set(attr, values);
+    }
+    val !== undefined && values.add(val);
+  };
+  for (const wme of wmes) {
+    observe(wme.fields[1], wme.fields[2]);
+  }
+  const observeConditions = (conds: GenericCondition[]) => {
+    for (const cond of conds) {
+      if(cond instanceof Condition && cond.attrs[1] instanceof Field && (cond.attrs[1] as Field).type === FieldType.Const) {
+        const val = cond.attrs[2];
+        observe((cond.attrs[1] as Field).v,
+          val instanceof Field && (val as Field).type === FieldType.Const ? (val as Field).v : undefined);
+        if(cond instanceof AggregateCondition) {
+          observeConditions(cond.innerConditions);
+        }
+      } else if('negativeConditions' in cond) { //instanceof does not work!
+        observeConditions(cond.negativeConditions as GenericCondition[]);
+      } else if('positiveConditions' in cond) { //instanceof does not work!
+        observeConditions(cond.positiveConditions as GenericCondition[]);
+      }
+    }
+  };
+  observeConditions(conditions);
+
+  const patternsForAttributes: PatternsForAttributes = {};
+  for (const attr of [...valuesOfAttributes.keys()].sort()) {
+    const values = [...valuesOfAttributes.get(attr)!].sort();
+    const description = `"TODO: what _ ${attr} _ means"`;
+    if(values.length && values.every(v => v.trim() !== '' && !Number.isNaN(Number(v)))) {
+      patternsForAttributes[attr] = [{id: undefined, val: undefined, valType: {type: 'number'}, description}];
+    } else if(values.length && values.length <= maxEnumeratedValues) {
+      patternsForAttributes[attr] = values.map(val => ({id: undefined, val, description}));
+    } else {
+      patternsForAttributes[attr] = [{id: undefined, val: undefined, description}];
+    }
+  }
+  return patternsForAttributes;
+}
+
+/**
+ * Compares two schemas by their patterns, ignoring descriptions. Returns the directives of the patterns only
+ * in the proposed schema, and of those only in the existing one.
+ */
+export function diffPatterns(existing: PatternsForAttributes, proposed: PatternsForAttributes) {
+  const directives = (patternsForAttributes: PatternsForAttributes) => Object.entries(patternsForAttributes)
+    .flatMap(([attr, patterns]) => patterns.map(p => ({
+      key: formatSchemaDirective(attr, {...p, description: undefined}),
+      directive: formatSchemaDirective(attr, p),
+    })));
+  const existingDirectives = directives(existing);
+  const proposedDirectives = directives(proposed);
+  return {
+    added: proposedDirectives.filter(p => !existingDirectives.find(e => e.key === p.key)).map(p => p.directive),
+    removed: existingDirectives.filter(e => !proposedDirectives.find(p => p.key === e.key)).map(e => e.directive),
+  };
+}
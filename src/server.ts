@@ -0,0 +1,249 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from 'http';
+import {queryResultObject} from './output';
+import {Reasoner, Reporter, serializeJustification} from './reasoner';
+
+type Reply = {
+  status?: number, // 200 if missing
+  body: {[key: string]: unknown},
+}
+
+type Context = {
+  reasoner: Reasoner,
+  save: () => Promise<string>, // saves the session, returning where
+  reporter?: RequestReporter,
+}
+
+type Endpoint = (context: Context, body: unknown, url: URL) => Reply | Promise<Reply>;
+
+export type ServeOptions = {
+  port: number,
+  host?: string, // 127.0.0.1 if missing, so that only local clients are served
+  save: () => Promise<string>, // saves the session for POST /save, returning where
+  reporter?: RequestReporter, // the reporter of the Reasoner, if its messages are to be replied
+}
+
+const defaultHost = '127.0.0.1';
+
+const maxBodySize = 1024 * 1024;
+
+/**
+ * An error replied with its status. Other errors are replied with status 400, as they are parse errors of the clauses
+ * or queries of the request.
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const endpoints: {[path: string]: {method: 'GET' | 'POST', endpoint: Endpoint}} = {
+  '/assert': {method: 'POST', endpoint: assertEndpoint},
+  '/retract': {method: 'POST', endpoint: retractEndpoint},
+  '/run': {method: 'POST', endpoint: runEndpoint},
+  '/query': {method: 'POST', endpoint: queryEndpoint},
+  '/explain': {method: 'GET', endpoint: explainEndpoint},
+  '/wm': {method: 'GET', endpoint: wmEndpoint},
+  '/save': {method: 'POST', endpoint: saveEndpoint},
+};
+
+/**
+ * A reporter for a served Reasoner, which collects the warnings and errors written while a request is handled, and
+ * passes the others on, such as those of loading the knowledge base before serving it, and the traces.
+ */
+export class RequestReporter implements Reporter {
+  private messages: string[] | undefined; // of the request being handled
+
+  constructor(private readonly reporter: Reporter = console) {
+  }
+
+  log(message: string) {
+    this.reporter.log(message);
+  }
+
+  warn(message: string) {
+    this.messages ? this.messages.push(message) : this.reporter.warn(message);
+  }
+
+  error(message: string) {
+    this.messages ? this.messages.push(message) : this.reporter.error(message);
+  }
+
+  /**
+   * Collects the messages written from now on into the array returned, until {@link endRequest}.
+   */
+  startRequest(): string[] {
+    return this.messages = [];
+  }
+
+  endRequest() {
+    this.messages = undefined;
+  }
+}
+
+/**
+ * Serves the knowledge base over HTTP, with JSON bodies. Requests are handled one at a time, in the order their bodies
+ * are read, as they all work on the same network; a client slow to send its body holds up no other. Given the
+ * {@link RequestReporter} of the Reasoner, the warnings and errors it writes while handling a request are returned in
+ * the `messages` of the reply. Clauses of requests cannot read files with `#include` or `#load`, as clients may not
+ * read them otherwise.
+ */
+export function serve(reasoner: Reasoner, {port, host = defaultHost, save, reporter}: ServeOptions): Promise<Server> {
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialized = <T>(call: () => Promise<T>): Promise<T> => {
+    const result = queue.then(call);
+    queue = result.catch(() => undefined); // a failed call does not stop the next ones
+    return result;
+  };
+  const server = createServer((request, response) => {
+    handle({reasoner, save, reporter}, serialized, request, response)
+      .catch(e => (reporter ?? console).error(`Cannot reply to ${request.method} ${request.url}: ${(e as Error).message}`));
+  });
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
+
+async function handle(
+  context: Context,
+  serialized: <T>(call: () => Promise<T>) => Promise<T>,
+  request: IncomingMessage,
+  response: ServerResponse,
+) {
+  let reply: Reply;
+  let messages: string[] = [];
+  try {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const route = endpoints[url.pathname];
+    if (!route) {
+      throw new HttpError(404, `No endpoint ${url.pathname}`);
+    }
+    if (request.method !== route.method) {
+      throw new HttpError(405, `${url.pathname} expects ${route.method}`);
+    }
+    const body = route.method === 'POST' ? await readBody(request) : undefined;
+    reply = await serialized(async () => {
+      messages = context.reporter?.startRequest() ?? [];
+      try {
+        return await route.endpoint(context, body, url);
+      } finally {
+        context.reporter?.endRequest();
+      }
+    });
+  } catch (e) {
+    reply = e instanceof HttpError
+      ? {status: e.status, body: {error: e.message}}
+      : {status: 400, body: {error: (e as Error).message}};
+  }
+  response.writeHead(reply.status ?? 200, {'Content-Type': 'application/json'});
+  response.end(JSON.stringify(messages.length ? {...reply.body, messages} : reply.body));
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > maxBodySize) {
+      throw new HttpError(413, `Body is larger than ${maxBodySize} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text.trim()) {
+    return {};
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new HttpError(400, `Body is not valid JSON: ${(e as Error).message}`);
+  }
+}
+
+function stringField(body: unknown, field: string): string {
+  const value = typeof body === 'object' && body !== null ? (body as {[field: string]: unknown})[field] : undefined;
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `Expected a string ${field} in the body`);
+  }
+  return value;
+}
+
+/**
+ * Parses `(id attr val)`, with or without the parentheses.
+ */
+function wmeFields(wme: string): [string, string, string] {
+  const fields = wme.trim().replace(/^\(/, '').replace(/\)$/, '').trim().split(/\s+/);
+  if (fields.length !== 3) {
+    throw new HttpError(400, `Malformed WME ${wme}, expected (id attr val)`);
+  }
+  return fields as [string, string, string];
+}
+
+/**
+ * Loads the clauses of the body, like the "run" interactive command, and runs the knowledge base to its new stable
+ * state.
+ */
+function assertEndpoint({reasoner}: Context, body: unknown): Reply {
+  const {changed, queryResults, factImports} = reasoner.load(stringField(body, 'clauses'), undefined, {readFiles: false});
+  const runResult = changed ? reasoner.run() : undefined;
+  return {
+    body: {
+      changed,
+      converged: runResult?.converged ?? true,
+      queryResults: queryResults.map(queryResultObject),
+      factImports,
+    },
+  };
+}
+
+function retractEndpoint({reasoner}: Context, body: unknown): Reply {
+  const retracted = reasoner.retract(...wmeFields(stringField(body, 'wme')));
+  const runResult = retracted ? reasoner.run() : undefined;
+  return {status: retracted ? 200 : 404, body: {retracted, converged: runResult?.converged ?? true}};
+}
+
+function runEndpoint({reasoner}: Context): Reply {
+  const {converged, cycles, oscillation} = reasoner.run();
+  return {body: {converged, cycles, ...(oscillation ? {hints: oscillation.hints} : {})}};
+}
+
+function queryEndpoint({reasoner}: Context, body: unknown): Reply {
+  return {body: {results: reasoner.query(stringField(body, 'query')).map(queryResultObject)}};
+}
+
+function explainEndpoint({reasoner}: Context, _: unknown, url: URL): Reply {
+  const wme = url.searchParams.get('wme');
+  if (!wme) {
+    throw new HttpError(400, 'Expected the wme parameter');
+  }
+  const fields = wmeFields(wme);
+  const found = reasoner.rete.findWME(...fields);
+  if (!found) {
+    throw new HttpError(404, `No WME found matching (${fields.join(' ')})`);
+  }
+  return {
+    body: {
+      wme: found.toString(),
+      explanation: reasoner.explain(...fields),
+      graph: reasoner.justificationGraph(found),
+    },
+  };
+}
+
+function wmEndpoint({reasoner}: Context): Reply {
+  return {
+    body: {
+      wmes: reasoner.justifications.map(({wme, justifications}) => ({
+        wme: wme.toString(),
+        justifications: justifications.map(serializeJustification),
+      })),
+    },
+  };
+}
+
+async function saveEndpoint({save}: Context): Promise<Reply> {
+  return {body: {saved: await save()}};
+}
@@ -0,0 +1,192 @@
+import {open, readFile, rename, unlink} from 'fs/promises';
+import {promisify} from 'util';
+import {gunzip, gzip} from 'zlib';
+import {SerializedSession} from './types';
+
+/**
+ * The version of the session format that {@link Reasoner.serialize} produces. Sessions saved before the format
+ * had a version are version 1.
+ */
+export const sessionFormatVersion = 2;
+
+/**
+ * A session read from JSON, before its structure is validated.
+ */
+type UncheckedSession = {[key: string]: unknown};
+
+function isUncheckedSession(session: unknown): session is UncheckedSession {
+  return typeof session === 'object' && session !== null && !Array.isArray(session);
+}
+
+/**
+ * Each migration takes a session of the version it is keyed by to the next version.
+ */
+const migrations: {[version: number]: (session: UncheckedSession) => UncheckedSession} = {
+  1: session => ({
+    ...session,
+    version: 2,
+    // the fuzzy system was saved as its name, before fuzzy systems had parameters
+    fuzzySystem: typeof session.fuzzySystem === 'string'
+      ? {name: session.fuzzySystem, parameters: []}
+      : session.fuzzySystem,
+  }),
+};
+
+/**
+ * Brings a session of any earlier version up to the current one, without validating it. Throws on sessions of a
+ * later version.
+ */
+export function migrateSession(session: unknown): unknown {
+  if (!isUncheckedSession(session)) {
+    return session; // for validateSession to report
+  }
+  let version = session.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Session format version ${JSON.stringify(version)} is not a version`);
+  }
+  if (version > sessionFormatVersion) {
+    throw new Error(`Session format version ${version} is newer than the supported version ${sessionFormatVersion}`);
+  }
+  let migrated = session;
+  while (version < sessionFormatVersion) {
+    migrated = migrations[version](migrated);
+    version++;
+  }
+  return migrated;
+}
+
+/**
+ * Checks the structure of a session of the current version. References between its parts, to WMEs, tokens and
+ * productions, are checked when it is deserialized, against the restored network. Returns the errors found.
+ */
+export function validateSession(session: unknown): string[] {
+  const errors: string[] = [];
+  if (!isUncheckedSession(session)) {
+    return ['Session is not an object'];
+  }
+  const expected: [string, string][] = [
+    ['network', 'object'],
+    ['justifications', 'array'],
+    ['rhsAsserts', 'array'],
+    ['strata', 'array'],
+    ['queries', 'array'],
+    ['patternsForAttributes', 'object'],
+    ['schemaCheck', 'boolean'],
+    ['fuzzyVariableKinds', 'array'],
+    ['fuzzyVariableRegistrations', 'array'],
+    ['nonDeterministicFixpointPossible', 'boolean'],
+  ];
+  for (const [key, type] of expected) {
+    const actual = Array.isArray(session[key]) ? 'array' : session[key] === null ? 'null' : typeof session[key];
+    if (actual !== type) {
+      errors.push(`${key} should be ${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}, but is ${actual === 'undefined' ? 'missing' : actual}`);
+    }
+  }
+  if (errors.length) {
+    return errors;
+  }
+  const productionCount = (session.rhsAsserts as unknown[]).length;
+  for (const key of ['productionNames', 'saliences', 'weights']) {
+    const entries = session[key];
+    if (entries !== undefined && !Array.isArray(entries)) {
+      errors.push(`${key} should be an array`);
+    } else if (entries !== undefined && entries.length !== productionCount) {
+      errors.push(`${key} has ${entries.length} entries, but there are ${productionCount} productions`);
+    }
+  }
+  (session.strata as unknown[]).forEach((stratum, i) => {
+    if (!Array.isArray(stratum)) {
+      errors.push(`Stratum ${i} should be an array`);
+      return;
+    }
+    for (const index of stratum.filter(index => !(typeof index === 'number' && index >= 0 && index < productionCount))) {
+      errors.push(`Stratum ${i} refers to production ${index}, but there are ${productionCount} productions`);
+    }
+  });
+  (session.justifications as unknown[]).forEach((sj, i) => {
+    if (!isUncheckedSession(sj) || typeof sj.wme !== 'string' || !Array.isArray(sj.justifications)) {
+      errors.push(`Justification ${i} should have a wme and an array of justifications`);
+      return;
+    }
+    sj.justifications.forEach((sjj: unknown, j) => {
+      const error = justificationError(sjj);
+      error && errors.push(`Justification ${j} of WME ${sj.wme} ${error}`);
+    });
+  });
+  return errors;
+}
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * What is wrong with a justification of a WME, if anything. A kind that is not known would otherwise be restored as
+ * an axiom.
+ */
+function justificationError(sjj: unknown): string | undefined {
+  if (!isUncheckedSession(sjj)) {
+    return 'should be an object';
+  }
+  switch (sjj.kind) {
+    case 'axiomatic':
+      return undefined;
+    case 'prod':
+      return typeof sjj.prod === 'string' && isStringArray(sjj.tokenWmes) ? undefined : 'should have a prod and an array of tokenWmes';
+    case 'wmes':
+      return isStringArray(sjj.wmes) ? undefined : 'should have an array of wmes';
+    default:
+      return `has unknown kind ${JSON.stringify(sjj.kind)}`;
+  }
+}
+
+/**
+ * Writes a session to a temporary file which is flushed to the disk and then renamed over the path, so that neither
+ * a crash nor a power loss leaves a truncated session behind.
+ */
+export async function writeSessionFile(path: string, session: SerializedSession, compress = false) {
+  const json = JSON.stringify(session);
+  const contents = compress ? await promisify(gzip)(json) : json;
+  const temporaryPath = `${path}.${process.pid}.tmp`;
+  try {
+    const handle = await open(temporaryPath, 'w');
+    try {
+      await handle.writeFile(contents);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(temporaryPath, path);
+  } catch (e) {
+    await unlink(temporaryPath).catch(() => undefined);
+    throw e;
+  }
+}
+
+/**
+ * Reads a session, compressed or not, migrates it to the current version and validates its structure. Throws
+ * with all the errors found.
+ */
+export async function readSessionFile(path: string): Promise<SerializedSession> {
+  let contents = await readFile(path);
+  if (contents[0] === 0x1f && contents[1] === 0x8b) { // the gzip magic number
+    contents = await promisify(gunzip)(contents);
+  }
+  let session: unknown;
+  try {
+    session = JSON.parse(contents.toString('utf8'));
+  } catch (e) {
+    throw new Error(`Session ${path} is not valid JSON: ${(e as Error).message}`);
+  }
+  return checkedSession(session, `Session ${path}`);
+}
+
+/**
+ * Migrates and validates a session, throwing with all the errors found.
+ */
+export function checkedSession(session: unknown, description = 'Session'): SerializedSession {
+  const migrated = migrateSession(session);
+  const errors = validateSession(migrated);
+  if (errors.length) {
+    throw new Error(`${description} is invalid:\n${errors.map(e => `  ${e}`).join('\n')}`);
+  }
+  return migrated as SerializedSession;
+}
@@ -0,0 +1,320 @@
+import {AggregateCondition, Condition, Field, FieldType, GenericCondition, Token} from 'rete-next/index';
+import type {Reasoner} from './reasoner';
+import {ConflictItem, ProductionSpec} from './types';
+
+export type conflictResolutionFunction = (conflicts: ConflictItem[], reasoner: Reasoner) => ConflictItem | undefined;
+export type conflictResolutionStrategy = {
+  name: string,
+  fnc: conflictResolutionFunction,
+}
+
+type DependencyEdge = {
+  producer: ProductionSpec,
+  consumer: ProductionSpec,
+  nonMonotonic: boolean, // the consumer reads the asserted pattern through negation or aggregation
+};
+
+function firstMatchConflictResolution(conflicts: ConflictItem[]): ConflictItem | undefined {
+  return conflicts[0];
+}
+
+function stratifiedManual(conflicts: ConflictItem[], reasoner: Reasoner): ConflictItem | undefined {
+  do {
+    const productionRhses = reasoner.strata[reasoner.currentStratum].map(x => x.production.rhs);
+    const found = conflicts.find(c => productionRhses.includes(c.productionSpec.production.rhs));
+    if(found) {
+      return found;
+    }
+    reasoner.currentStratum++;
+  } while(reasoner.currentStratum < reasoner.strata.length);
+  return undefined;
+}
+
+function recencyOfToken(reasoner: Reasoner, token: Token): number[] {
+  // Position in the working memory stands for the time tag of OPS5: WMEs are appended as they are added
+  return token.toArray()
+    .map(w => w ? reasoner.rete.working_memory.indexOf(w) : -1)
+    .sort((x, y) => y - x);
+}
+
+function compareRecencies(r1: number[], r2: number[]): number {
+  for (let i = 0; i < Math.min(r1.length, r2.length); i++) {
+    if(r1[i] !== r2[i]) {
+      return r1[i] - r2[i];
+    }
+  }
+  return r1.length - r2.length;
+}
+
+function mostRecentToken(reasoner: Reasoner, conflictItem: ConflictItem): Token | undefined {
+  let best: Token | undefined;
+  for (const token of conflictItem.tokensToAddOrRemove[0]) {
+    if(!best || compareRecencies(recencyOfToken(reasoner, token), recencyOfToken(reasoner, best)) > 0) {
+      best = token;
+    }
+  }
+  return best;
+}
+
+function countConditions(lhs: GenericCondition[]): number {
+  let count = 0;
+  for (const cond of lhs) {
+    if(cond instanceof AggregateCondition) {
+      count += 1 + countConditions(cond.innerConditions);
+    } else if(cond instanceof Condition) {
+      count++;
+    } else if('negativeConditions' in cond) { //instanceof does not work!
+      count += countConditions(cond.negativeConditions as GenericCondition[]);
+    } else if('positiveConditions' in cond) { //instanceof does not work!
+      count += countConditions(cond.positiveConditions as GenericCondition[]);
+    }
+  }
+  return count;
+}
+
+type conflictComparator = (reasoner: Reasoner, c1: ConflictItem, c2: ConflictItem) => number; // > 0 when c1 should fire first
+
+function selectBySalienceThen(compare: conflictComparator): conflictResolutionFunction {
+  return (conflicts: ConflictItem[], reasoner: Reasoner) => {
+    // Pending removals go first, so that invalidated support is retracted before anything new is derived
+    const removalsOnly = conflicts.find(c => c.tokensToAddOrRemove[0].length === 0);
+    if(removalsOnly) {
+      return removalsOnly;
+    }
+    let best: ConflictItem | undefined;
+    for (const conflictItem of conflicts) {
+      if(!best) {
+        best = conflictItem;
+        continue;
+      }
+      const bySalience = conflictItem.productionSpec.salience - best.productionSpec.salience;
+      if(bySalience > 0 || (bySalience === 0 && compare(reasoner, conflictItem, best) > 0)) {
+        best = conflictItem;
+      }
+    }
+    return best;
+  };
+}
+
+function compareSpecificity(reasoner: Reasoner, c1: ConflictItem, c2: ConflictItem): number {
+  return countConditions(c1.productionSpec.production.lhs) - countConditions(c2.productionSpec.production.lhs);
+}
+
+function compareLex(reasoner: Reasoner, c1: ConflictItem, c2: ConflictItem): number {
+  const byRecency = compareRecencies(
+    recencyOfToken(reasoner, mostRecentToken(reasoner, c1)!),
+    recencyOfToken(reasoner, mostRecentToken(reasoner, c2)!)
+  );
+  return byRecency || compareSpecificity(reasoner, c1, c2);
+}
+
+function compareMea(reasoner: Reasoner, c1: ConflictItem, c2: ConflictItem): number {
+  const recencyOfFirstWME = (c: ConflictItem) => {
+    const first = mostRecentToken(reasoner, c)!.toArray()[0];
+    return first ? reasoner.rete.working_memory.indexOf(first) : -1;
+  };
+  return (recencyOfFirstWME(c1) - recencyOfFirstWME(c2)) || compareLex(reasoner, c1, c2);
+}
+
+const salienceConflictResolution = selectBySalienceThen(() => 0);
+const lexConflictResolution = selectBySalienceThen(compareLex);
+const meaConflictResolution = selectBySalienceThen(compareMea);
+const specificityConflictResolution = selectBySalienceThen(compareSpecificity);
+
+export function conditionsReadByLhs(lhs: GenericCondition[], nonMonotonic: boolean): [Condition, boolean][] {
+  const read: [Condition, boolean][] = [];
+  for (const cond of lhs) {
+    if(cond instanceof AggregateCondition) {
+      read.push(...conditionsReadByLhs(cond.innerConditions, true));
+    } else if(cond instanceof Condition) {
+      read.push([cond, nonMonotonic]);
+    } else if('negativeConditions' in cond) { //instanceof does not work!
+      read.push(...conditionsReadByLhs(cond.negativeConditions as GenericCondition[], true));
+    } else if('positiveConditions' in cond) { //instanceof does not work!
+      read.push(...conditionsReadByLhs(cond.positiveConditions as GenericCondition[], nonMonotonic));
+    }
+  }
+  return read;
+}
+
+export function constantOfField(f: unknown): string | undefined {
+  if(f instanceof Field && (f as Field).type === FieldType.Const) {
+    return (f as Field).v;
+  }
+  return undefined;
+}
+
+function conditionMayMatchAssert(reasoner: Reasoner, cond: Condition, asserted: Condition): boolean {
+  const attr = constantOfField(cond.attrs[1]) ?? constantOfField(asserted.attrs[1]);
+  // Fuzzy values in conditions match the crisp WME that defuzzification maintains, whatever its value
+  const positions = attr && reasoner.rete.getFuzzyVariable(attr) ? [0, 1] : [0, 1, 2];
+  for (const i of positions) {
+    const c = constantOfField(cond.attrs[i]);
+    const a = constantOfField(asserted.attrs[i]);
+    if(c !== undefined && a !== undefined && c !== a) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function computeProductionDependencies(reasoner: Reasoner): DependencyEdge[] {
+  const edges: DependencyEdge[] = [];
+  for (const consumer of reasoner.productions) {
+    const readConditions = conditionsReadByLhs(consumer.production.lhs, false);
+    for (const producer of reasoner.productions) {
+      if(!producer.rhsAssert) continue;
+      const asserted = producer.rhsAssert.filter(c => c instanceof Condition) as Condition[];
+      let found: DependencyEdge | undefined;
+      for (const [cond, nonMonotonic] of readConditions) {
+        if(asserted.find(a => conditionMayMatchAssert(reasoner, cond, a))) {
+          if(!found) {
+            found = {producer, consumer, nonMonotonic};
+            edges.push(found);
+          } else {
+            found.nonMonotonic ||= nonMonotonic;
+          }
+        }
+      }
+    }
+  }
+  return edges;
+}
+
+function stronglyConnectedProductions(productions: ProductionSpec[], edges: DependencyEdge[]): ProductionSpec[][] {
+  // Tarjan's algorithm. Components come out consumers first, so the result is reversed to list producers first
+  let index = 0;
+  const indices = new Map<ProductionSpec, number>();
+  const lowLinks = new Map<ProductionSpec, number>();
+  const stack: ProductionSpec[] = [];
+  const components: ProductionSpec[][] = [];
+
+  function strongConnect(p: ProductionSpec) {
+    indices.set(p, index);
+    lowLinks.set(p, index);
+    index++;
+    stack.push(p);
+    for (const {consumer} of edges.filter(e => e.producer === p)) {
+      if(!indices.has(consumer)) {
+        strongConnect(consumer);
+        lowLinks.set(p, Math.min(lowLinks.get(p)!, lowLinks.get(consumer)!));
+      } else if(stack.includes(consumer)) {
+        lowLinks.set(p, Math.min(lowLinks.get(p)!, indices.get(consumer)!));
+      }
+    }
+    if(lowLinks.get(p) === indices.get(p)) {
+      const component: ProductionSpec[] = [];
+      let q: ProductionSpec;
+      do {
+        q = stack.pop()!;
+        component.push(q);
+      } while (q !== p);
+      components.push(component);
+    }
+  }
+
+  for (const p of productions) {
+    if(!indices.has(p)) {
+      strongConnect(p);
+    }
+  }
+  return components.reverse();
+}
+
+export function computeAutomaticStrata(reasoner: Reasoner): ProductionSpec[][] {
+  const edges = computeProductionDependencies(reasoner);
+  const components = stronglyConnectedProductions(reasoner.productions, edges);
+  const levels = new Map<ProductionSpec, number>();
+  for (const component of components) {
+    const cycle = edges.filter(e => component.includes(e.producer) && component.includes(e.consumer));
+    const nonMonotonicInCycle = cycle.filter(e => e.nonMonotonic);
+    if(nonMonotonicInCycle.length) {
+      reasoner.reporter.warn(`Unstratifiable: cycle through negation or aggregation among productions ${component.map(p => `"${p.production.rhs}"`).join(', ')}`);
+      for (const {producer, consumer} of nonMonotonicInCycle) {
+        reasoner.reporter.warn(`  "${consumer.production.rhs}" negates or aggregates what "${producer.production.rhs}" asserts`);
+      }
+    }
+    let level = 0;
+    for (const {producer, nonMonotonic} of edges.filter(e => component.includes(e.consumer) && !component.includes(e.producer))) {
+      level = Math.max(level, levels.get(producer)! + (nonMonotonic ? 1 : 0));
+    }
+    for (const p of component) {
+      levels.set(p, level);
+    }
+  }
+  const computedStrata: ProductionSpec[][] = [[]];
+  for (const p of reasoner.productions) {
+    const level = levels.get(p)!;
+    while (computedStrata.length <= level) {
+      computedStrata.push([]);
+    }
+    computedStrata[level].push(p);
+  }
+  return computedStrata;
+}
+
+function stratifiedAutomatic(conflicts: ConflictItem[], reasoner: Reasoner): ConflictItem | undefined {
+  if(!reasoner.automaticStrata) {
+    reasoner.automaticStrata = computeAutomaticStrata(reasoner);
+    reasoner.currentAutomaticStratum = 0;
+  }
+  do {
+    const productionRhses = reasoner.automaticStrata[reasoner.currentAutomaticStratum].map(x => x.production.rhs);
+    const found = conflicts.find(c => productionRhses.includes(c.productionSpec.production.rhs));
+    if(found) {
+      return found;
+    }
+    reasoner.currentAutomaticStratum++;
+  } while(reasoner.currentAutomaticStratum < reasoner.automaticStrata.length);
+  return undefined;
+}
+
+export function printStrata(reasoner: Reasoner) {
+  function printLayout(title: string, layout: ProductionSpec[][]) {
+    console.log(title);
+    for (let i = 0; i < layout.length; i++) {
+      console.log(` Stratum #${i}`);
+      for (const productionSpec of layout[i]) {
+        console.log(`  ${productionSpec.production.rhs}`);
+      }
+    }
+  }
+  printLayout('Manual strata (#stratum)', reasoner.strata);
+  reasoner.automaticStrata = computeAutomaticStrata(reasoner);
+  printLayout('Automatic strata', reasoner.automaticStrata);
+}
+
+export const conflictResolutionStrategies: conflictResolutionStrategy[] = [
+  {
+    name: 'firstMatch',
+    fnc: firstMatchConflictResolution,
+  },
+  {
+    name: 'stratifiedManual',
+    fnc: stratifiedManual,
+  },
+  {
+    name: 'stratifiedAutomatic',
+    fnc: stratifiedAutomatic,
+  },
+  {
+    name: 'salience',
+    fnc: salienceConflictResolution,
+  },
+  {
+    name: 'lex',
+    fnc: lexConflictResolution,
+  },
+  {
+    name: 'mea',
+    fnc: meaConflictResolution,
+  },
+  {
+    name: 'specificity',
+    fnc: specificityConflictResolution,
+  },
+];
+
+export function findConflictResolutionStrategy(name: string): conflictResolutionStrategy | undefined {
+  return conflictResolutionStrategies.find(crs => crs.name.toLowerCase().startsWith(name.toLowerCase()));
+}
@@ -0,0 +1,122 @@
+import {
+  FuzzyWME,
+  GenericCondition,
+  ProductionNode,
+  SerializedGenericCondition,
+  SerializedNetwork,
+  Token,
+  WME,
+} from 'rete-next/index';
+import {DefuzzificationMethod, FuzzyHedge, FuzzyVariableKind} from './fuzzy';
+import {PatternsForAttribute} from './schema';
+
+export type ProductionJustification = {
+  token:Token,
+  prod: string,
+};
+export type DefuzzificationJustification = {
+  wmes: FuzzyWME[],
+};
+export type AxiomaticJustification = {
+  axiomatic: true,
+}
+export type Justification = ProductionJustification | DefuzzificationJustification | AxiomaticJustification;
+export type ProductionSpec = {
+  production: ProductionNode,
+  rhsAssert?: GenericCondition[],
+  salience: number,
+  weight?: number, // scales the μ-value of what the production asserts
+}
+/**
+ * Where in source text something was read: the resolved path of the file, missing for text loaded without one, and
+ * the 1-based line, in the file or in the text loaded.
+ */
+export type SourceLocation = {
+  file?: string,
+  line: number,
+}
+export type ConflictItem = {
+  productionSpec: ProductionSpec,
+  tokensToAddOrRemove: [Token[], Token[]],
+}
+export type Query = {
+  lhs: GenericCondition[],
+  variables: string[],
+  text?: string, // as written in the source, missing from sessions saved before it was kept
+}
+export type QueryResult = Query & {
+  bindings: {[variable: string]: string}[],
+}
+export type FiredProduction = {
+  productionSpec: ProductionSpec,
+  added: WME[],
+  removed: WME[],
+}
+export type Oscillation = {
+  firings: FiredProduction[], // one per cycle of the loop
+  hints: string[],
+}
+export type RunResult = {
+  converged: boolean,
+  cycles: number,
+  oscillation?: Oscillation,
+}
+export type WMEJustification = {
+  wme: WME,
+  justifications: Justification[],
+};
+
+export type SerializedJustification =
+  | { kind: 'prod', prod: string, tokenWmes: string[] }
+  | { kind: 'wmes', wmes: string[] }
+  | { kind: 'axiomatic' };
+
+export type SerializedWMEJustification = {
+  wme: string, // WME.toString()
+  justifications: SerializedJustification[],
+};
+
+export type SessionSource = {
+  hash: string, // of the source text
+  axioms: string[], // WME.toString() of the axioms the source asserted
+  productions?: string[], // the names of the productions the source read, missing from sessions saved before
+  includes?: {path: string, hash: string}[], // the files it included or loaded facts from, with their resolved paths
+};
+
+/**
+ * What was carried over when a session was restored from a source that had changed since it was saved.
+ */
+export type Reconciliation = {
+  productionsAdded: string[],
+  productionsRemoved: string[], // productions of the source deleted from it
+  productionsKept: string[], // productions added after the source had been loaded
+  directivesChanged: string[], // e.g. '#schema', '#fuzzy'
+  assertsKept: string[], // axioms asserted after the source had been loaded
+  retractionsKept: string[], // axioms of the source retracted after it had been loaded
+};
+
+export type SerializedSession = {
+  version?: number, // missing from sessions saved before the format had a version
+  network: SerializedNetwork, // from rete-next
+  source?: SessionSource,
+  productionNames?: string[], // parallel to network.productions
+  justifications: SerializedWMEJustification[],
+  rhsAsserts: (SerializedGenericCondition[] | null)[], // parallel to network.productions
+  saliences?: number[], // parallel to network.productions
+  weights?: (number | null)[], // parallel to network.productions
+  strata: number[][], // indices into the productions array
+  queries: { lhs: SerializedGenericCondition[], variables: string[], text?: string }[],
+  patternsForAttributes: { [attr: string]: PatternsForAttribute[] }, // already plain data
+  schemaCheck: boolean,
+  strictSchemaCheck?: boolean,
+  fuzzyVariableKinds: FuzzyVariableKind[], // already plain data
+  fuzzyHedges?: FuzzyHedge[], // including the built-in ones
+  fuzzyVariableRegistrations: { name: string, kind: FuzzyVariableKind }[], // rete.fuzzyVariables, in order
+  fuzzySystem?: { name: string, parameters: number[] },
+  nonDeterministicFixpointPossible: boolean,
+  prefixes?: {[prefix: string]: string}, // of #prefix directives
+  defuzzification?: {
+    method: DefuzzificationMethod,
+    methodsOfVariables: {[variable: string]: DefuzzificationMethod},
+  },
+};